@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on vitest, so the jest rules cannot detect a jest install
+    jest: { version: 29 },
+  },
 };
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Every model gets the same fake query methods; nothing reaches a database
+const { prisma, purgeShop } = vi.hoisted(() => {
+  const models = new Map<string, Record<string, ReturnType<typeof vi.fn>>>();
+  const model = () => ({
+    deleteMany: vi.fn(async () => ({ count: 1 })),
+    updateMany: vi.fn(async () => ({ count: 0 })),
+    count: vi.fn(async () => 0),
+    findUnique: vi.fn(async () => null),
+    findFirst: vi.fn(async () => null),
+  });
+  const prisma = new Proxy({} as Record<string, Record<string, ReturnType<typeof vi.fn>>>, {
+    get: (_target, name: string) => {
+      if (!models.has(name)) models.set(name, model());
+      return models.get(name);
+    },
+  });
+  return { prisma, purgeShop: vi.fn(async (_shop: string) => 3) };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("../services/deepseek.server", () => ({ deepseek: { purgeShop } }));
+
+const { action: uninstalled } = await import("../routes/webhooks.app.uninstalled");
+const { action: shopRedact } = await import("../routes/webhooks.shop.redact");
+const { action: customersRedact } = await import("../routes/webhooks.customers.redact");
+const { action: dataRequest } = await import("../routes/webhooks.customers.data_request");
+
+const SHOP = "test-shop.myshopify.com";
+
+// Every shop-scoped table the purge has to empty
+const SHOP_MODELS = [
+  "bulkJob",
+  "generationHistory",
+  "refinementTurn",
+  "productRevision",
+  "voiceProfile",
+  "guardrailPolicy",
+  "automationRule",
+  "descriptionDraft",
+  "usageEvent",
+  "shopBilling",
+  "creditTopUp",
+  "session",
+];
+
+type WebhookAction = (args: ActionFunctionArgs) => Promise<Response>;
+
+/** Sends a webhook the way Shopify does: the raw body signed with the app secret. */
+function deliver(action: WebhookAction, topic: string, payload: object, secret = process.env.SHOPIFY_API_SECRET!) {
+  const body = JSON.stringify(payload);
+  const hmac = crypto.createHmac("sha256", secret).update(body, "utf8").digest("base64");
+  const request = new Request(`https://app.example.com/webhooks/${topic}`, {
+    method: "POST",
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Hmac-Sha256": hmac,
+      "X-Shopify-Topic": topic,
+      "X-Shopify-Shop-Domain": SHOP,
+      "X-Shopify-API-Version": "2025-01",
+      "X-Shopify-Webhook-Id": crypto.randomUUID(),
+      "X-Shopify-Event-Id": crypto.randomUUID(),
+      "X-Shopify-Triggered-At": new Date().toISOString(),
+    },
+  });
+  return action({ request, params: {}, context: {} });
+}
+
+function expectShopPurged() {
+  for (const name of SHOP_MODELS) {
+    expect(prisma[name].deleteMany, name).toHaveBeenCalledWith({ where: { shop: SHOP } });
+  }
+  expect(prisma.bulkJobItem.deleteMany).toHaveBeenCalledWith({ where: { job: { shop: SHOP } } });
+  expect(purgeShop).toHaveBeenCalledWith(SHOP);
+}
+
+function expectNothingDeleted() {
+  for (const name of [...SHOP_MODELS, "bulkJobItem"]) {
+    expect(prisma[name].deleteMany, name).not.toHaveBeenCalled();
+  }
+  expect(purgeShop).not.toHaveBeenCalled();
+}
+
+describe("compliance webhooks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("purges every shop-scoped record on app/uninstalled", async () => {
+    const response = await deliver(uninstalled, "app/uninstalled", { id: 1, domain: SHOP });
+
+    expect(response.status).toBe(200);
+    expectShopPurged();
+    // Running jobs are cancelled first so the worker stops writing for the shop
+    expect(prisma.bulkJob.updateMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, status: { in: ["queued", "running", "paused"] } },
+      data: { status: "cancelled" },
+    });
+  });
+
+  it("purges again on shop/redact", async () => {
+    const response = await deliver(shopRedact, "shop/redact", { shop_id: 1, shop_domain: SHOP });
+
+    expect(response.status).toBe(200);
+    expectShopPurged();
+  });
+
+  it("acknowledges customers/redact without touching shop data", async () => {
+    const response = await deliver(customersRedact, "customers/redact", {
+      shop_id: 1,
+      shop_domain: SHOP,
+      customer: { id: 42, email: "customer@example.com" },
+      orders_to_redact: [],
+    });
+
+    expect(response.status).toBe(200);
+    expectNothingDeleted();
+  });
+
+  it("acknowledges customers/data_request without touching shop data", async () => {
+    const response = await deliver(dataRequest, "customers/data_request", {
+      shop_id: 1,
+      shop_domain: SHOP,
+      customer: { id: 42, email: "customer@example.com" },
+      data_request: { id: 7 },
+    });
+
+    expect(response.status).toBe(200);
+    expectNothingDeleted();
+  });
+
+  it("rejects a payload signed with another secret", async () => {
+    const response = await deliver(uninstalled, "app/uninstalled", { id: 1, domain: SHOP }, "not-the-secret").catch(
+      (thrown: unknown) => thrown as Response
+    );
+
+    expect(response.status).toBe(401);
+    expectNothingDeleted();
+  });
+
+  it("still purges the database when Redis is unavailable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    purgeShop.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    const response = await deliver(uninstalled, "app/uninstalled", { id: 1, domain: SHOP });
+
+    expect(response.status).toBe(200);
+    expectShopPurged();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDescription } from "../utils/content-score";
+
+// 72 short, plain words in two paragraphs with no repeated phrasing
+const GOOD =
+  "<p>Meet the trail shoe you can wear all day. The sole grips wet rock and loose dirt. A soft foam bed keeps each step light, " +
+  "so long runs feel short.</p>" +
+  "<p>The upper is made from thin mesh that lets air move. It dries fast after a creek crossing. A firm heel cup holds your " +
+  "foot in place on steep climbs. Pull tabs make it quick to slip on. Pick your size and head out today.</p>";
+
+describe("analyzeDescription", () => {
+  it("gives a plain, well-structured description full marks", () => {
+    const result = analyzeDescription(GOOD, "trail shoe, mesh");
+
+    expect(result.issues).toEqual([]);
+    expect(result.score).toBe(100);
+    expect(result.keywordCoverage).toBe(1);
+    expect(result.structure.paragraphs).toBe(2);
+  });
+
+  it("scores an empty description 0", () => {
+    const result = analyzeDescription("<p></p>", "trail shoe");
+
+    expect(result.score).toBe(0);
+    expect(result.issues[0]).toBe("The description is empty");
+  });
+
+  it("takes coverage points for missing keywords", () => {
+    const result = analyzeDescription(GOOD, "trail shoe, waterproof, gore-tex");
+
+    expect(result.keywordCoverage).toBeCloseTo(1 / 3);
+    expect(result.issues).toContain('Missing keywords: "waterproof", "gore-tex"');
+    expect(result.score).toBe(80);
+  });
+
+  it("flags keyword stuffing above 3% density", () => {
+    const stuffed = GOOD.replace("The sole grips", "This trail shoe grips").replace("It dries", "The trail shoe dries");
+
+    const result = analyzeDescription(stuffed, "trail shoe");
+
+    expect(result.keywords[0]).toMatchObject({ keyword: "trail shoe", count: 3 });
+    expect(result.issues.some((issue) => issue.startsWith('"trail shoe" is'))).toBe(true);
+  });
+
+  it("takes length points in proportion to a short description", () => {
+    const result = analyzeDescription("<p>Light and fast.</p><p>Made for trails.</p>");
+
+    expect(result.words).toBe(6);
+    expect(result.issues).toContain("6 words is short; aim for at least 60");
+    expect(result.score).toBe(87);
+  });
+
+  it("expects at least 3 list items in bullet format", () => {
+    const result = analyzeDescription("<ul><li>Grips wet rock</li><li>Dries fast</li></ul>", "", "bullets");
+
+    expect(result.structure).toMatchObject({ lists: 1, listItems: 2 });
+    expect(result.issues).toContain("Bullet format needs a list with at least 3 items");
+  });
+
+  it("flags a paragraph description written as a single block", () => {
+    const result = analyzeDescription(GOOD.replace("</p><p>", " "));
+
+    expect(result.issues).toContain("A single block of text; break it into paragraphs or add a list");
+  });
+
+  it("reports three-word phrases used more than once", () => {
+    const result = analyzeDescription("<p>Built for long runs.</p><p>Also built for long runs on rock.</p>");
+
+    expect(result.duplicates).toContainEqual({ phrase: "built for long", count: 2 });
+    expect(result.issues.some((issue) => issue.startsWith("Repeated phrasing:"))).toBe(true);
+  });
+});
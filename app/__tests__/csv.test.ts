@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "../utils/csv";
+
+describe("toCsv and parseCsv", () => {
+  it("round-trips quotes, commas and newlines inside fields", () => {
+    const rows = [
+      ["Handle", "Body (HTML)", "SEO Title"],
+      ["trail-runner", '<p class="lead">Light, fast\r\nand "grippy".</p>\n<ul><li>Mesh</li></ul>', " padded "],
+      ["", "", ""],
+    ];
+
+    const csv = toCsv(rows);
+
+    expect(csv).toContain('"<p class=""lead"">Light, fast');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+
+  it("drops a byte order mark and blank lines", () => {
+    expect(parseCsv('\uFEFFHandle,Title\r\n\r\ntrail-runner,"Trail Runner"\n\n')).toEqual([
+      ["Handle", "Title"],
+      ["trail-runner", "Trail Runner"],
+    ]);
+  });
+
+  it("keeps a file without a trailing newline, and rows of empty fields", () => {
+    expect(parseCsv("a,b\n,\nc,d")).toEqual([
+      ["a", "b"],
+      ["", ""],
+      ["c", "d"],
+    ]);
+  });
+
+  it("stops spreadsheets from running cells as formulas", () => {
+    const csv = toCsv([["=HYPERLINK(\"http://evil.example\")", "+1", "-sale", "@SUM(A1)", "<p>Fine</p>"]]);
+
+    expect(csv).toBe(`"'=HYPERLINK(""http://evil.example"")",'+1,'-sale,'@SUM(A1),<p>Fine</p>`);
+  });
+
+  it("gives formula-like cells back unchanged", () => {
+    const rows = [["=1+1", "'=already quoted", "-", "it's fine", "'plain"]];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
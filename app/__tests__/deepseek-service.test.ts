@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { GenerationProduct } from "../services/products.server";
+
+// No shop is passed, so limits, usage and guardrails never reach the database
+vi.mock("../db.server", () => ({ default: {} }));
+vi.mock("ioredis", () => ({
+  default: class {
+    status = "end";
+    async connect() {
+      throw new Error("Redis is not available in tests");
+    }
+  },
+}));
+
+const { AIValidationError, DeepSeekService } = await import("../services/deepseek.server");
+const { MockProvider } = await import("../services/llm-providers.server");
+const { DEFAULT_GUARDRAIL_POLICY } = await import("../services/guardrails.server");
+
+type Message = { role: string; content: unknown };
+type Reply = string | Error;
+
+const product: GenerationProduct = {
+  id: "gid://shopify/Product/1",
+  title: "Trail Runner",
+  description: "",
+  descriptionHtml: "",
+  vendor: "Acme",
+  productType: "Shoes",
+  tags: [],
+  options: [],
+  priceRangeV2: {
+    minVariantPrice: { amount: "120.0", currencyCode: "USD" },
+    maxVariantPrice: { amount: "120.0", currencyCode: "USD" },
+  },
+  variants: { nodes: [] },
+  metafields: { nodes: [] },
+};
+
+const valid = (fields: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    description: "<p>Built for long runs.</p>",
+    socials: null,
+    seo: { title: "Trail Runner", description: "Built for long runs." },
+    ...fields,
+  });
+
+/**
+ * The mock provider, fed the given replies first: strings are returned as the
+ * model's text, errors are thrown as failed HTTP calls.
+ */
+function scriptedProvider(...replies: Reply[]) {
+  const mock = new MockProvider();
+  const calls: Message[][] = [];
+  return {
+    name: mock.name,
+    label: mock.label,
+    model: mock.model,
+    vision: false,
+    calls,
+    async complete(request: { messages: Message[] }) {
+      calls.push(request.messages);
+      const reply = replies.shift();
+      if (reply instanceof Error) throw reply;
+      if (reply !== undefined) return { text: reply, usage: null };
+      return mock.complete(request as Parameters<typeof mock.complete>[0]);
+    },
+  };
+}
+
+const lastTurn = (messages: Message[]) => String(messages[messages.length - 1].content);
+
+function service(provider: ReturnType<typeof scriptedProvider>, opts: { maxRetries?: number; maxRepairs?: number } = {}) {
+  return new DeepSeekService({ provider, maxRetries: 3, maxRepairs: 2, ...opts });
+}
+
+describe("DeepSeekService output validation", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("sends socials given as a string back for repair", async () => {
+    const provider = scriptedProvider(valid({ socials: "Run further #trail" }));
+
+    const result = await service(provider).generateDescription({ product, includeSocials: true });
+
+    expect(provider.calls).toHaveLength(2);
+    expect(lastTurn(provider.calls[1])).toContain("did not match the required JSON format");
+    expect(lastTurn(provider.calls[1])).toContain('"socials" must be an object');
+    expect(result.socials).toEqual({ twitter: expect.any(String), instagram: expect.any(String) });
+  });
+
+  it("sends unexpected keys back for repair", async () => {
+    const provider = scriptedProvider(valid({ notes: "Written in a hurry" }));
+
+    await service(provider).generateDescription({ product });
+
+    expect(lastTurn(provider.calls[1])).toContain('unexpected key "notes"');
+  });
+
+  it("sends an empty description back for repair", async () => {
+    const provider = scriptedProvider(valid({ description: "" }));
+
+    await service(provider).generateDescription({ product });
+
+    expect(lastTurn(provider.calls[1])).toContain('"description" must be a non-empty HTML string');
+  });
+
+  it("throws AIValidationError once maxRepairs repairs have failed", async () => {
+    const provider = scriptedProvider("not json", "still not json", "{}");
+
+    await expect(service(provider, { maxRepairs: 2 }).generateDescription({ product })).rejects.toBeInstanceOf(
+      AIValidationError
+    );
+    // The first attempt plus two repairs
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it("coerces and sanitizes output wrapped in a code fence", async () => {
+    const provider = scriptedProvider(
+      "```json\n" + valid({ description: '<p onclick="steal()">Built for long runs.</p><script>steal()</script>' }) + "\n```"
+    );
+
+    const result = await service(provider).generateDescription({ product });
+
+    expect(provider.calls).toHaveLength(1);
+    expect(result.description).toBe("<p>Built for long runs.</p>");
+    expect(result.socials).toBeNull();
+  });
+});
+
+describe("DeepSeekService retries", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("counts HTTP failures and repairs separately", async () => {
+    const provider = scriptedProvider(new Error("HTTP 502"), "not json", "{}");
+
+    const result = await service(provider, { maxRetries: 2, maxRepairs: 2 }).generateDescription({ product });
+
+    // One HTTP retry and two repairs, then the mock's valid output
+    expect(provider.calls).toHaveLength(4);
+    expect(result.description).toContain("Trail Runner");
+  });
+
+  it("gives up after maxRetries HTTP failures", async () => {
+    const provider = scriptedProvider(new Error("HTTP 502"), new Error("HTTP 503"));
+
+    await expect(service(provider, { maxRetries: 2 }).generateDescription({ product })).rejects.toThrow(
+      "Generation failed: HTTP 503"
+    );
+    expect(provider.calls).toHaveLength(2);
+  });
+});
+
+describe("DeepSeekService translation guardrails", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  function withPolicy(svc: InstanceType<typeof DeepSeekService>, fields: Record<string, unknown>) {
+    const policy = { ...DEFAULT_GUARDRAIL_POLICY, enabled: true, onViolation: "regenerate", ...fields };
+    vi.spyOn(svc, "_guardrailsFor").mockResolvedValue({ policy, format: "paragraph" } as never);
+    return svc;
+  }
+
+  it("sends a translation with a banned word back for a rewrite", async () => {
+    const provider = scriptedProvider(
+      JSON.stringify({ description: "<p>Zapatilla barata.</p>" }),
+      JSON.stringify({ description: "<p>Zapatilla ligera.</p>" })
+    );
+    const svc = withPolicy(service(provider), { bannedWords: ["barata"] });
+
+    const result = await svc.translateDescription({ html: "<p>Cheap shoe.</p>", language: "Spanish" });
+
+    expect(lastTurn(provider.calls[1])).toContain('Uses the banned word "barata"');
+    expect(result.description).toBe("<p>Zapatilla ligera.</p>");
+    expect(result.guardrail).toMatchObject({ status: "regenerated", violations: [] });
+  });
+
+  it("leaves word limits out, since a translation follows the source's length", async () => {
+    const provider = scriptedProvider(JSON.stringify({ description: "<p>Zapatilla ligera.</p>" }));
+    const svc = withPolicy(service(provider), { wordLimits: { paragraph: { min: 50 }, bullets: {} } });
+
+    const result = await svc.translateDescription({ html: "<p>Light shoe.</p>", language: "Spanish" });
+
+    expect(provider.calls).toHaveLength(1);
+    expect(result.guardrail).toBeUndefined();
+  });
+});
+
+describe("DeepSeekService score rewrites", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  // Scores low enough to ask for a rewrite at minScore 90
+  const lowScorer = valid({ description: "<p>Built for long runs.</p>" });
+
+  it("keeps the draft before a rewrite whose HTTP calls all fail", async () => {
+    const provider = scriptedProvider(lowScorer, new Error("HTTP 502"), new Error("HTTP 503"));
+
+    const result = await service(provider, { maxRetries: 2 }).generateDescription({ product, minScore: 90 });
+
+    expect(provider.calls).toHaveLength(3);
+    expect(lastTurn(provider.calls[1])).toContain("for SEO and readability. Improve it");
+    expect(result.description).toBe("<p>Built for long runs.</p>");
+    expect(result.score).toBeLessThan(90);
+  });
+
+  it("keeps the draft before a rewrite that never comes back valid", async () => {
+    const provider = scriptedProvider(lowScorer, "not json", "still not json");
+
+    const result = await service(provider, { maxRepairs: 1 }).generateDescription({ product, minScore: 90 });
+
+    expect(provider.calls).toHaveLength(3);
+    expect(result.description).toBe("<p>Built for long runs.</p>");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { diffStats, diffWords, renderDiffHtml, sideParts } from "../utils/diff";
+import { htmlToText } from "../utils/html";
+
+describe("diffWords", () => {
+  it("keeps identical text as one equal part", () => {
+    expect(diffWords("Built to last", "Built to last")).toEqual([{ type: "equal", value: "Built to last" }]);
+  });
+
+  it("marks replaced words as a deletion and an insertion", () => {
+    expect(diffWords("the red shoe", "the blue shoe")).toEqual([
+      { type: "equal", value: "the " },
+      { type: "delete", value: "red" },
+      { type: "insert", value: "blue" },
+      { type: "equal", value: " shoe" },
+    ]);
+  });
+
+  it("treats whitespace runs as equal", () => {
+    expect(diffWords("light  and\nfast", "light and fast")).toEqual([{ type: "equal", value: "light and fast" }]);
+  });
+
+  it("keeps tags as parts of their own", () => {
+    const parts = diffWords("<p>Soft</p>", "<p>Firm</p>");
+
+    expect(parts).toEqual([
+      { type: "equal", value: "<p>" },
+      { type: "delete", value: "Soft" },
+      { type: "insert", value: "Firm" },
+      { type: "equal", value: "</p>" },
+    ]);
+  });
+
+  it("replaces everything when the changed middle is too large to compare", () => {
+    const before = Array.from({ length: 900 }, (_, i) => `a${i}`).join(" ");
+    const after = Array.from({ length: 900 }, (_, i) => `b${i}`).join(" ");
+
+    const parts = diffWords(`start ${before} end`, `start ${after} end`);
+
+    expect(parts.map((part) => part.type)).toEqual(["equal", "delete", "insert", "equal"]);
+    expect(parts[1].value).toBe(before);
+    expect(parts[2].value).toBe(after);
+  });
+});
+
+describe("diff helpers", () => {
+  const parts = diffWords("<p>A soft red shoe</p>", "<p>A firm blue shoe</p>");
+
+  it("shows each side without the other's changes", () => {
+    expect(sideParts(parts, "before").map((part) => part.value).join("")).toBe("<p>A soft red shoe</p>");
+    expect(sideParts(parts, "after").map((part) => part.value).join("")).toBe("<p>A firm blue shoe</p>");
+  });
+
+  it("wraps changed words but never tags", () => {
+    expect(renderDiffHtml(parts, "after")).toBe("<p>A <ins>firm</ins> <ins>blue</ins> shoe</p>");
+    expect(renderDiffHtml(diffWords("<p>Old</p>", "<h2>New</h2>"), "after")).toBe("<h2><ins>New</ins></h2>");
+  });
+
+  it("counts added and removed words", () => {
+    expect(diffStats(diffWords("one two three", "one four five six three"))).toEqual({ added: 3, removed: 1 });
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps paragraph and list breaks and decodes entities", () => {
+    expect(htmlToText("<p>Fish &amp; chips</p><ul><li>Hot</li><li>Salty</li></ul>")).toBe("Fish & chips\n• Hot\n• Salty");
+  });
+});
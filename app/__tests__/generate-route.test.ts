@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The mock provider answers every prompt offline; Redis is left unreachable so nothing is cached
+const { prisma, admin } = vi.hoisted(() => {
+  process.env.LLM_PROVIDER = "mock";
+
+  let nextId = 0;
+  const models = new Map<string, Record<string, ReturnType<typeof vi.fn>>>();
+  const model = () => ({
+    create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({
+      id: `record-${++nextId}`,
+      chosen: false,
+      createdAt: new Date(),
+      ...data,
+    })),
+    count: vi.fn(async () => 0),
+    findUnique: vi.fn(async () => null),
+    findFirst: vi.fn(async () => null),
+    findMany: vi.fn(async () => []),
+    aggregate: vi.fn(async () => ({ _sum: { credits: null } })),
+  });
+  const prisma = new Proxy({} as Record<string, Record<string, ReturnType<typeof vi.fn>>>, {
+    get: (_target, name: string) => {
+      if (!models.has(name)) models.set(name, model());
+      return models.get(name);
+    },
+  });
+  return { prisma, admin: { graphql: vi.fn() } };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("../shopify.server", () => ({
+  authenticate: { admin: vi.fn(async () => ({ admin, session: { shop: SHOP } })) },
+}));
+vi.mock("ioredis", () => ({
+  default: class {
+    status = "end";
+    async connect() {
+      throw new Error("Redis is not available in tests");
+    }
+  },
+}));
+
+const { action, loader } = await import("../routes/app.generate");
+const { PLANS } = await import("../services/billing.server");
+
+const SHOP = "test-shop.myshopify.com";
+const PRODUCT_ID = "gid://shopify/Product/1";
+
+const product = {
+  id: PRODUCT_ID,
+  title: "Trail Runner",
+  description: "",
+  descriptionHtml: "<p>Old copy</p>",
+  vendor: "Acme",
+  productType: "Shoes",
+  tags: ["running"],
+  options: [],
+  priceRangeV2: null,
+  variants: { nodes: [] },
+  metafields: { nodes: [] },
+};
+
+type GenerateResponse = {
+  status: string;
+  message?: string;
+  data?: {
+    description: string;
+    socials: { twitter: string; instagram: string } | null;
+    seo: { title: string; description: string };
+    candidates: { historyId: string; style: string; description: string }[];
+    currentDescription: string;
+  };
+};
+
+async function generate(fields: Record<string, string>) {
+  const request = new Request("https://app.example.com/app/generate", {
+    method: "POST",
+    body: new URLSearchParams({ actionType: "generate", productId: PRODUCT_ID, ...fields }),
+  });
+  const response = await action({ request, params: {}, context: {} });
+  return { status: response.status, body: (await response.json()) as GenerateResponse };
+}
+
+describe("generate action with the mock provider", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    admin.graphql.mockImplementation(async () => ({ json: async () => ({ data: { product } }) }));
+  });
+
+  it("generates a description, socials and SEO fields and records them", async () => {
+    const { status, body } = await generate({ format: "paragraph", includeSocials: "true" });
+
+    expect(status).toBe(200);
+    expect(body.status).toBe("success");
+    expect(body.data?.description).toMatch(/^<p>Trail Runner is built to last/);
+    expect(body.data?.socials?.twitter).toContain("Trail Runner");
+    expect(body.data?.seo.title).toBe("Trail Runner | Built to last");
+    expect(body.data?.currentDescription).toBe("<p>Old copy</p>");
+
+    expect(prisma.generationHistory.create).toHaveBeenCalledTimes(1);
+    expect(prisma.usageEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ shop: SHOP, kind: "generate", status: "success", provider: "mock" }),
+    });
+  });
+
+  it("returns the same output for the same request", async () => {
+    const first = await generate({ format: "bullets" });
+    const second = await generate({ format: "bullets" });
+
+    expect(first.body.data?.description).toMatch(/^<ul><li>/);
+    expect(second.body.data?.description).toBe(first.body.data?.description);
+  });
+
+  it("returns one candidate per requested style", async () => {
+    const { body } = await generate({ candidates: "2" });
+
+    expect(body.data?.candidates.map((c) => c.style)).toEqual(["Balanced", "Benefit-led"]);
+    // Each style changes the prompt, so the mock's output differs too
+    expect(body.data?.candidates[0].description).not.toBe(body.data?.candidates[1].description);
+    expect(prisma.generationHistory.create).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses candidates that would go over the monthly limit before generating any", async () => {
+    prisma.usageEvent.count.mockResolvedValueOnce(PLANS.free.monthlyLimit - 1);
+
+    const { status, body } = await generate({ candidates: "2" });
+
+    expect(status).toBe(500);
+    expect(body.message).toMatch(/^2 generations would go over the monthly limit/);
+    expect(prisma.generationHistory.create).not.toHaveBeenCalled();
+    expect(prisma.usageEvent.create).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 for a product the shop does not have", async () => {
+    admin.graphql.mockImplementation(async () => ({ json: async () => ({ data: { product: null } }) }));
+
+    const { status, body } = await generate({});
+
+    expect(status).toBe(404);
+    expect(body.message).toBe("Product not found");
+    expect(prisma.usageEvent.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("refinement thread loader", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the draft's saved turns, oldest first", async () => {
+    prisma.refinementTurn.findMany.mockResolvedValueOnce([
+      {
+        id: "turn-1",
+        historyId: "history-1",
+        instruction: "Shorter",
+        description: "<p>Short.</p>",
+        socials: null,
+        seoTitle: null,
+        seoDescription: null,
+        createdAt: new Date("2026-01-01T00:00:00Z"),
+      },
+    ]);
+
+    const request = new Request("https://app.example.com/app/generate?historyId=history-1");
+    const response = await loader({ request, params: {}, context: {} });
+
+    expect(await response.json()).toEqual({
+      status: "success",
+      data: {
+        historyId: "history-1",
+        turns: [expect.objectContaining({ id: "turn-1", instruction: "Shorter", createdAt: "2026-01-01T00:00:00.000Z" })],
+      },
+    });
+    expect(prisma.refinementTurn.findMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, historyId: "history-1" },
+      orderBy: { createdAt: "asc" },
+    });
+  });
+});
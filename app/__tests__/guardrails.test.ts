@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import type { GuardrailPolicy } from "../services/guardrails.server";
+
+// Only the policy lookup touches the database, and these tests pass policies in
+vi.mock("../db.server", () => ({ default: {} }));
+
+const { checkGuardrails, DEFAULT_GUARDRAIL_POLICY } = await import("../services/guardrails.server");
+
+const policy = (fields: Partial<GuardrailPolicy>): GuardrailPolicy => ({
+  ...DEFAULT_GUARDRAIL_POLICY,
+  enabled: true,
+  ...fields,
+});
+
+const CLEAN = "<p>A light shoe with a grippy sole for wet trails.</p>";
+
+describe("checkGuardrails", () => {
+  it("checks nothing while the policy is disabled", () => {
+    const disabled = policy({ enabled: false, bannedWords: ["shoe"] });
+
+    expect(checkGuardrails(disabled, { description: CLEAN }, "paragraph")).toEqual([]);
+  });
+
+  it("finds banned words in the body as whole words, ignoring case and markup", () => {
+    const banned = policy({ bannedWords: ["cheap", "best-in-class"] });
+
+    expect(checkGuardrails(banned, { description: "<p>Cheaper than most.</p>" }, "paragraph")).toEqual([]);
+    expect(
+      checkGuardrails(banned, { description: "<p><strong>CHEAP</strong> and best-in-class.</p>" }, "paragraph")
+    ).toEqual([
+      { rule: "banned_word", message: 'Uses the banned word "cheap"' },
+      { rule: "banned_word", message: 'Uses the banned word "best-in-class"' },
+    ]);
+  });
+
+  it("finds banned words in the SEO fields and social posts", () => {
+    const banned = policy({ bannedWords: ["cheap"] });
+
+    const inSeo = { description: CLEAN, seo: { title: "Cheap trail shoes", description: "" } };
+    const inSocials = { description: CLEAN, socials: { twitter: "", instagram: "So cheap! #trail" } };
+
+    expect(checkGuardrails(banned, inSeo, "paragraph")).toHaveLength(1);
+    expect(checkGuardrails(banned, inSocials, "paragraph")).toHaveLength(1);
+  });
+
+  it("reports the first matching claim of each enabled category", () => {
+    const claims = policy({ claimCategories: ["medical", "eco"] });
+
+    const violations = checkGuardrails(
+      claims,
+      {
+        description: "<p>Relieves knee pain on long runs.</p>",
+        seo: { title: "Trail Runner", description: "An eco-friendly trail shoe." },
+        socials: { twitter: "Money-back promise", instagram: "" },
+      },
+      "paragraph"
+    );
+
+    // Guarantees are not enabled, so "money-back" passes
+    expect(violations).toEqual([
+      { rule: "claim", message: 'Medical and health claims: "Relieves knee pain"' },
+      { rule: "claim", message: 'Environmental claims: "eco-friendly"' },
+    ]);
+  });
+
+  it("finds custom claims in social posts", () => {
+    const custom = policy({ customClaims: ["made in Italy"] });
+
+    const violations = checkGuardrails(
+      custom,
+      { description: CLEAN, socials: { twitter: "Proudly made in italy.", instagram: "" } },
+      "paragraph"
+    );
+
+    expect(violations).toEqual([{ rule: "claim", message: 'Restricted claim: "made in Italy"' }]);
+  });
+
+  it("counts only the body against the word limits of its format", () => {
+    const limits = policy({ wordLimits: { paragraph: { min: 20 }, bullets: { max: 5 } } });
+    const long = { description: CLEAN, seo: { title: "Trail Runner", description: "Many more words ".repeat(10) } };
+
+    expect(checkGuardrails(limits, long, "paragraph")).toEqual([
+      { rule: "min_words", message: "Has 10 words; paragraph descriptions need at least 20" },
+    ]);
+    expect(checkGuardrails(limits, long, "bullets")).toEqual([
+      { rule: "max_words", message: "Has 10 words; bullets descriptions allow at most 5" },
+    ]);
+  });
+});
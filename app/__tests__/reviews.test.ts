@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Drafts held in memory; findFirst and updateMany honour the fields publishDraft filters on
+const { prisma, drafts, saveDescriptionWithRevision } = vi.hoisted(() => {
+  const drafts = new Map<string, Record<string, unknown>>();
+  const matches = (draft: Record<string, unknown>, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => draft[key] === value);
+  const prisma = {
+    descriptionDraft: {
+      findFirst: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        [...drafts.values()].find((draft) => matches(draft, where)) ?? null
+      ),
+      // Cursor paging over the map in insertion order
+      findMany: vi.fn(
+        async ({ take, cursor, skip = 0 }: { take: number; cursor?: { id: string }; skip?: number }) => {
+          const all = [...drafts.values()];
+          const start = cursor ? all.findIndex((draft) => draft.id === cursor.id) + skip : 0;
+          return all.slice(start, start + take);
+        }
+      ),
+      updateMany: vi.fn(
+        async ({ where, data }: { where: Record<string, unknown>; data: Record<string, unknown> }) => {
+          const hits = [...drafts.values()].filter((draft) => matches(draft, where));
+          hits.forEach((draft) => Object.assign(draft, data));
+          return { count: hits.length };
+        }
+      ),
+    },
+    draftEvent: { create: vi.fn(async () => ({})) },
+  };
+  return { prisma, drafts, saveDescriptionWithRevision: vi.fn() };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("../services/revisions.server", () => ({ saveDescriptionWithRevision }));
+vi.mock("../services/translations.server", () => ({ registerDescriptionTranslations: vi.fn(async () => []) }));
+vi.mock("../services/history.server", () => ({ markChosenCandidates: vi.fn() }));
+
+const { listAllDrafts, publishDraft } = await import("../services/reviews.server");
+
+const SHOP = "test-shop.myshopify.com";
+const admin = { graphql: vi.fn() };
+const staff = { id: "2", name: "Robin Reviewer", email: "robin@example.com" };
+
+describe("publishDraft", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    drafts.clear();
+    drafts.set("draft-1", {
+      id: "draft-1",
+      shop: SHOP,
+      productId: "gid://shopify/Product/1",
+      descriptionHtml: "<p>New copy</p>",
+      seoTitle: null,
+      seoDescription: null,
+      translations: null,
+      candidateGroup: null,
+      chosenIds: null,
+      status: "approved",
+      publishedAt: null,
+    });
+    saveDescriptionWithRevision.mockResolvedValue({ userErrors: [] });
+  });
+
+  it("publishes an approved draft once and rejects a second publish", async () => {
+    const first = await publishDraft(admin, SHOP, "draft-1", staff);
+    const second = await publishDraft(admin, SHOP, "draft-1", staff);
+
+    expect(first.userErrors).toEqual([]);
+    expect(second.userErrors).toEqual([{ message: "This draft is already published" }]);
+    expect(saveDescriptionWithRevision).toHaveBeenCalledTimes(1);
+    expect(prisma.draftEvent.create).toHaveBeenCalledTimes(1);
+    expect(drafts.get("draft-1")?.publishedAt).toBeInstanceOf(Date);
+  });
+
+  it("lets only one of two concurrent publishes write the product", async () => {
+    const results = await Promise.all([
+      publishDraft(admin, SHOP, "draft-1", staff),
+      publishDraft(admin, SHOP, "draft-1", staff),
+    ]);
+
+    expect(results.filter((result) => result.userErrors.length === 0)).toHaveLength(1);
+    expect(saveDescriptionWithRevision).toHaveBeenCalledTimes(1);
+  });
+
+  it("releases the draft when the save fails, so it can be published again", async () => {
+    saveDescriptionWithRevision.mockResolvedValueOnce({ userErrors: [{ message: "Product not found" }] });
+    saveDescriptionWithRevision.mockRejectedValueOnce(new Error("Network error"));
+
+    expect((await publishDraft(admin, SHOP, "draft-1", staff)).userErrors).toEqual([{ message: "Product not found" }]);
+    expect(drafts.get("draft-1")?.publishedAt).toBeNull();
+    await expect(publishDraft(admin, SHOP, "draft-1", staff)).rejects.toThrow("Network error");
+    expect(drafts.get("draft-1")?.publishedAt).toBeNull();
+
+    expect((await publishDraft(admin, SHOP, "draft-1", staff)).userErrors).toEqual([]);
+    expect(prisma.draftEvent.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses a draft that is not approved", async () => {
+    drafts.get("draft-1")!.status = "pending";
+
+    const result = await publishDraft(admin, SHOP, "draft-1", staff);
+
+    expect(result.userErrors).toEqual([{ message: "Only approved drafts can be published" }]);
+    expect(saveDescriptionWithRevision).not.toHaveBeenCalled();
+  });
+});
+
+describe("listAllDrafts", () => {
+  it("reads past the first page", async () => {
+    drafts.clear();
+    for (let i = 0; i < 250; i++) {
+      drafts.set(`draft-${i}`, {
+        id: `draft-${i}`,
+        shop: SHOP,
+        productId: "gid://shopify/Product/1",
+        productTitle: "Trail Runner",
+        descriptionHtml: "<p>Copy</p>",
+        status: "pending",
+        publishedAt: null,
+        createdAt: new Date(),
+      });
+    }
+
+    const all = await listAllDrafts(SHOP);
+
+    expect(all).toHaveLength(250);
+    expect(new Set(all.map((draft) => draft.id)).size).toBe(250);
+    expect(prisma.descriptionDraft.findMany).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { Badge, BlockStack, Button, Card, Checkbox, InlineGrid, InlineStack, Text } from "@shopify/polaris";
+import { splitBlocks } from "../utils/html-blocks";
+import type { GuardrailOutcome } from "../services/guardrails.server";
+import { scoreTone } from "./ContentScorePanel";
+
+export type Candidate = {
+  historyId: string;
+  style: string;
+  description: string;
+  socials?: { twitter?: string; instagram?: string } | null;
+  seo?: { title: string; description: string } | null;
+  guardrail?: GuardrailOutcome | null;
+  // Content score when generated (utils/content-score.ts)
+  score?: number | null;
+};
+
+interface CandidatePickerProps {
+  candidates: Candidate[];
+  // History ids of the candidates the current draft came from
+  chosenIds: string[];
+  onUse: (candidate: Candidate) => void;
+  onMerge: (html: string, sources: Candidate[]) => void;
+}
+
+/**
+ * Candidate descriptions side by side. Use one as-is, or tick paragraphs from
+ * several and merge them (in the order they were ticked) into one draft.
+ */
+export function CandidatePicker({ candidates, chosenIds, onUse, onMerge }: CandidatePickerProps) {
+  // Picked blocks as "candidateIndex:blockIndex", in pick order
+  const [picked, setPicked] = useState<string[]>([]);
+  const blocks = useMemo(() => candidates.map((c) => splitBlocks(c.description)), [candidates]);
+
+  const toggle = (key: string, checked: boolean) =>
+    setPicked((current) => (checked ? [...current, key] : current.filter((k) => k !== key)));
+
+  const handleMerge = () => {
+    const parts = picked.map((key) => key.split(":").map(Number));
+    const sources = [...new Set(parts.map(([c]) => c))].map((c) => candidates[c]);
+    onMerge(parts.map(([c, b]) => blocks[c][b]).join(""), sources);
+    setPicked([]);
+  };
+
+  return (
+    <BlockStack gap="300">
+      <InlineStack align="space-between" blockAlign="center">
+        <Text as="h3" variant="headingSm">{candidates.length} candidates</Text>
+        <Button onClick={handleMerge} disabled={picked.length === 0}>
+          {picked.length > 0 ? `Merge ${picked.length} selected` : "Merge selected"}
+        </Button>
+      </InlineStack>
+
+      <InlineGrid columns={{ xs: 1, md: Math.min(candidates.length, 2) }} gap="300">
+        {candidates.map((candidate, c) => (
+          <Card key={candidate.historyId}>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="h4" variant="headingSm">Option {c + 1}</Text>
+                  <Badge>{candidate.style}</Badge>
+                  {typeof candidate.score === "number" && (
+                    <Badge tone={scoreTone(candidate.score)}>{`Score ${candidate.score}`}</Badge>
+                  )}
+                  {candidate.guardrail?.status === "flagged" && <Badge tone="critical">Flagged</Badge>}
+                  {chosenIds.length === 1 && chosenIds[0] === candidate.historyId && (
+                    <Badge tone="success">In use</Badge>
+                  )}
+                </InlineStack>
+                <Button size="slim" onClick={() => onUse(candidate)}>Use this</Button>
+              </InlineStack>
+
+              {blocks[c].map((block, b) => {
+                const key = `${c}:${b}`;
+                return (
+                  <Checkbox
+                    key={key}
+                    label={<div dangerouslySetInnerHTML={{ __html: block }} />}
+                    checked={picked.includes(key)}
+                    onChange={(checked) => toggle(key, checked)}
+                  />
+                );
+              })}
+            </BlockStack>
+          </Card>
+        ))}
+      </InlineGrid>
+    </BlockStack>
+  );
+}
@@ -0,0 +1,66 @@
+import { useMemo } from "react";
+import { Badge, BlockStack, InlineGrid, InlineStack, List, ProgressBar, Text } from "@shopify/polaris";
+import { analyzeDescription } from "../utils/content-score";
+
+interface ContentScorePanelProps {
+  html: string;
+  // Comma-separated, as typed into SEO Keywords
+  keywords: string;
+  format: string;
+}
+
+export const scoreTone = (score: number) => (score >= 80 ? "success" : score >= 60 ? "attention" : "critical");
+
+/**
+ * SEO and readability of the draft in the editor, rescored on every edit.
+ */
+export function ContentScorePanel({ html, keywords, format }: ContentScorePanelProps) {
+  const analysis = useMemo(() => analyzeDescription(html, keywords, format), [html, keywords, format]);
+  const { structure } = analysis;
+
+  return (
+    <BlockStack gap="300">
+      <InlineStack align="space-between" blockAlign="center">
+        <Text as="h3" variant="headingSm">Content score</Text>
+        <Badge tone={scoreTone(analysis.score)}>{`${analysis.score}/100`}</Badge>
+      </InlineStack>
+      <ProgressBar progress={analysis.score} size="small" tone={analysis.score >= 60 ? "success" : "critical"} />
+
+      <InlineGrid columns={4} gap="300">
+        {[
+          ["Words", analysis.words],
+          ["Sentences", analysis.sentences],
+          ["Words per sentence", analysis.avgSentenceLength],
+          ["Reading grade", analysis.readingGrade],
+        ].map(([label, value]) => (
+          <BlockStack key={label} gap="100">
+            <Text as="p" variant="bodySm" tone="subdued">{label}</Text>
+            <Text as="p" fontWeight="semibold">{value}</Text>
+          </BlockStack>
+        ))}
+      </InlineGrid>
+
+      {analysis.keywords.length > 0 && (
+        <InlineStack gap="200">
+          {analysis.keywords.map((k) => (
+            <Badge key={k.keyword} tone={k.count === 0 ? "critical" : k.density > 3 ? "attention" : "success"}>
+              {`${k.keyword}: ${k.count}× (${k.density}%)`}
+            </Badge>
+          ))}
+        </InlineStack>
+      )}
+
+      <Text as="p" variant="bodySm" tone="subdued">
+        {`${structure.paragraphs} paragraphs · ${structure.headings} headings · ${structure.lists} lists (${structure.listItems} items)`}
+      </Text>
+
+      {analysis.issues.length > 0 && (
+        <List>
+          {analysis.issues.map((issue) => (
+            <List.Item key={issue}>{issue}</List.Item>
+          ))}
+        </List>
+      )}
+    </BlockStack>
+  );
+}
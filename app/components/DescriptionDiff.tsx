@@ -0,0 +1,89 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { BlockStack, Box, ButtonGroup, Button, InlineGrid, InlineStack, Text } from "@shopify/polaris";
+import { diffStats, diffWords, renderDiffHtml, sideParts, type DiffSide } from "../utils/diff";
+import { htmlToText } from "../utils/html";
+
+interface DescriptionDiffProps {
+  // Both must be sanitized HTML; the formatted view renders them as-is
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+const highlight: Record<DiffSide, CSSProperties> = {
+  before: { background: "var(--p-color-bg-fill-critical-secondary)", textDecoration: "line-through" },
+  after: { background: "var(--p-color-bg-fill-success-secondary)", textDecoration: "none" },
+};
+
+// <ins>/<del> inside the formatted HTML get the same colors as the plain-text spans
+const formattedStyles = `
+  .description-diff del { background: var(--p-color-bg-fill-critical-secondary); }
+  .description-diff ins { background: var(--p-color-bg-fill-success-secondary); text-decoration: none; }
+`;
+
+/**
+ * Side-by-side word-level diff of two descriptions, formatted or as plain text.
+ */
+export function DescriptionDiff({
+  before,
+  after,
+  beforeLabel = "Current",
+  afterLabel = "Generated",
+}: DescriptionDiffProps) {
+  const [mode, setMode] = useState<"formatted" | "text">("formatted");
+
+  const parts = useMemo(
+    () => (mode === "text" ? diffWords(htmlToText(before), htmlToText(after)) : diffWords(before, after)),
+    [mode, before, after]
+  );
+  const { added, removed } = useMemo(() => diffStats(parts), [parts]);
+
+  const renderSide = (side: DiffSide) => {
+    if (side === "before" && !before.trim()) {
+      return <Text as="p" tone="subdued">No description yet</Text>;
+    }
+    if (mode === "formatted") {
+      return <div className="description-diff" dangerouslySetInnerHTML={{ __html: renderDiffHtml(parts, side) }} />;
+    }
+    return (
+      <div style={{ whiteSpace: "pre-wrap" }}>
+        {sideParts(parts, side).map((part, index) => (
+          <span key={index} style={part.type === "equal" ? undefined : highlight[side]}>
+            {part.value}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <BlockStack gap="300">
+      <style>{formattedStyles}</style>
+      <InlineStack align="space-between" blockAlign="center">
+        <Text as="p" variant="bodySm" tone="subdued">
+          {added === 0 && removed === 0 ? "No changes" : `${added} words added · ${removed} removed`}
+        </Text>
+        <ButtonGroup variant="segmented">
+          <Button pressed={mode === "formatted"} onClick={() => setMode("formatted")} size="slim">
+            Formatted
+          </Button>
+          <Button pressed={mode === "text"} onClick={() => setMode("text")} size="slim">
+            Plain text
+          </Button>
+        </ButtonGroup>
+      </InlineStack>
+
+      <InlineGrid columns={{ xs: 1, md: 2 }} gap="300">
+        {(["before", "after"] as const).map((side) => (
+          <BlockStack key={side} gap="200">
+            <Text as="h4" variant="headingSm">{side === "before" ? beforeLabel : afterLabel}</Text>
+            <Box background="bg-surface-secondary" padding="300" borderRadius="200">
+              {renderSide(side)}
+            </Box>
+          </BlockStack>
+        ))}
+      </InlineGrid>
+    </BlockStack>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import { Badge, Banner, BlockStack, Box, Button, InlineStack, Text, TextField } from "@shopify/polaris";
+import type { SeoFields } from "../utils/seo";
+
+export type DraftVersion = {
+  description: string;
+  socials?: { twitter?: string; instagram?: string } | null;
+  seo?: SeoFields | null;
+};
+
+type Turn = DraftVersion & { id: string; instruction: string; createdAt: string };
+
+type RefineResponse =
+  | { status: "success"; data: { historyId: string; turns: Turn[] } }
+  | { status: "error"; message: string };
+
+interface RefinementPanelProps {
+  // History id of the draft being refined
+  historyId: string;
+  original: DraftVersion;
+  // What the editor holds now; the next instruction refines this
+  current: { description: string; seo: SeoFields };
+  // Also applies each refinement as it arrives, so keep it stable (useCallback)
+  onRestore: (version: DraftVersion) => void;
+}
+
+const SUGGESTIONS = ["Shorter", "Less salesy", "Mention the warranty", "More about materials"];
+
+/**
+ * Follow-up instructions on the current draft, via the refine action in
+ * app.generate.ts. Every turn is kept per draft and can be restored, including
+ * the turns saved before the draft was last opened.
+ */
+export function RefinementPanel({ historyId, original, current, onRestore }: RefinementPanelProps) {
+  const fetcher = useFetcher<RefineResponse>();
+  // Saved turns of a draft opened again, from the loader in app.generate.ts
+  const threadFetcher = useFetcher<RefineResponse>();
+  const [instruction, setInstruction] = useState("");
+  const [threads, setThreads] = useState<Record<string, Turn[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const isRefining = fetcher.state !== "idle";
+  const turns = threads[historyId] ?? [];
+  const threadLoaded = historyId in threads;
+  const loadThread = threadFetcher.load;
+
+  useEffect(() => {
+    if (!threadLoaded) loadThread(`/app/generate?historyId=${encodeURIComponent(historyId)}`);
+  }, [historyId, threadLoaded, loadThread]);
+
+  useEffect(() => {
+    const data = threadFetcher.data;
+    if (threadFetcher.state !== "idle" || !data) return;
+    if (data.status === "error") {
+      setError(data.message);
+      return;
+    }
+    const { historyId: draftId, turns: thread } = data.data;
+    // A refinement that finished first already holds the newer thread
+    setThreads((existing) => (draftId in existing ? existing : { ...existing, [draftId]: thread }));
+  }, [threadFetcher.state, threadFetcher.data]);
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (fetcher.state !== "idle" || !data) return;
+    if (data.status === "error") {
+      setError(data.message);
+      return;
+    }
+    const { historyId: draftId, turns: thread } = data.data;
+    setThreads((existing) => ({ ...existing, [draftId]: thread }));
+    setInstruction("");
+    setError(null);
+    const latest = thread[thread.length - 1];
+    if (latest) onRestore(latest);
+  }, [fetcher.state, fetcher.data, onRestore]);
+
+  const refine = (text: string) => {
+    setError(null);
+    fetcher.submit(
+      {
+        actionType: "refine",
+        historyId,
+        instruction: text,
+        descriptionHtml: current.description,
+        seoTitle: current.seo.title,
+        seoDescription: current.seo.description,
+      },
+      { method: "post", action: "/app/generate" }
+    );
+  };
+
+  const versions: { key: string; label: string; version: DraftVersion }[] = [
+    { key: "original", label: "Original", version: original },
+    ...turns.map((turn, i) => ({ key: turn.id, label: `${i + 1}. ${turn.instruction}`, version: turn })),
+  ];
+
+  return (
+    <BlockStack gap="300">
+      <Text as="h3" variant="headingSm">Refine</Text>
+
+      {error && (
+        <Banner tone="critical" onDismiss={() => setError(null)}>
+          <p>{error}</p>
+        </Banner>
+      )}
+
+      <InlineStack gap="200">
+        {SUGGESTIONS.map((suggestion) => (
+          <Button key={suggestion} size="slim" onClick={() => refine(suggestion)} disabled={isRefining}>
+            {suggestion}
+          </Button>
+        ))}
+      </InlineStack>
+
+      <TextField
+        label="Instruction"
+        labelHidden
+        value={instruction}
+        onChange={setInstruction}
+        placeholder="e.g. Make the second paragraph about care instructions"
+        autoComplete="off"
+        helpText="Each refinement counts as one generation"
+        connectedRight={
+          <Button onClick={() => refine(instruction.trim())} disabled={!instruction.trim() || isRefining} loading={isRefining}>
+            Refine
+          </Button>
+        }
+      />
+
+      {turns.length > 0 && (
+        <BlockStack gap="200">
+          {versions.map(({ key, label, version }) => (
+            <Box key={key} padding="200" background="bg-surface-secondary" borderRadius="200">
+              <InlineStack align="space-between" blockAlign="center" wrap={false}>
+                <Text as="p" variant="bodySm" truncate>{label}</Text>
+                {version.description === current.description ? (
+                  <Badge tone="success">In editor</Badge>
+                ) : (
+                  <Button size="slim" variant="plain" onClick={() => onRestore(version)}>
+                    Restore
+                  </Button>
+                )}
+              </InlineStack>
+            </Box>
+          ))}
+        </BlockStack>
+      )}
+    </BlockStack>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from "react";
+import { BlockStack, Box, Button, InlineStack, Text } from "@shopify/polaris";
+
+interface RichTextEditorProps {
+  label: string;
+  value: string;
+  onChange: (html: string) => void;
+  helpText?: string;
+}
+
+// Only formatting that survives the server sanitizer (see utils/html-policy)
+const TOOLS = [
+  { content: "B", label: "Bold", command: "bold" },
+  { content: "I", label: "Italic", command: "italic" },
+  { content: "H3", label: "Heading", command: "formatBlock", value: "<h3>" },
+  { content: "¶", label: "Paragraph", command: "formatBlock", value: "<p>" },
+  { content: "• List", label: "Bulleted list", command: "insertUnorderedList" },
+  { content: "1. List", label: "Numbered list", command: "insertOrderedList" },
+  { content: "Clear", label: "Clear formatting", command: "removeFormat" },
+];
+
+/**
+ * Minimal contentEditable editor for description HTML. Whatever it produces is
+ * re-sanitized on save, so pasted markup outside the policy is dropped there.
+ */
+export function RichTextEditor({ label, value, onChange, helpText }: RichTextEditorProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Only write outside changes into the DOM; rewriting on every keystroke moves the caret
+  useEffect(() => {
+    if (ref.current && ref.current.innerHTML !== value) ref.current.innerHTML = value;
+  }, [value]);
+
+  const emit = () => {
+    if (ref.current) onChange(ref.current.innerHTML);
+  };
+
+  const run = (command: string, arg?: string) => {
+    ref.current?.focus();
+    // Tags rather than inline styles, and <p> rather than <div> for new lines
+    document.execCommand("styleWithCSS", false, "false");
+    document.execCommand("defaultParagraphSeparator", false, "p");
+    document.execCommand(command, false, arg);
+    emit();
+  };
+
+  return (
+    <BlockStack gap="200">
+      <Text as="h3" variant="headingSm">{label}</Text>
+      <InlineStack gap="100">
+        {TOOLS.map((tool) => (
+          // mousedown would otherwise take focus and the selection with it
+          <div key={tool.label} onMouseDown={(event) => event.preventDefault()}>
+            <Button size="slim" accessibilityLabel={tool.label} onClick={() => run(tool.command, tool.value)}>
+              {tool.content}
+            </Button>
+          </div>
+        ))}
+      </InlineStack>
+      <Box padding="300" borderWidth="025" borderColor="border" borderRadius="200">
+        <div
+          ref={ref}
+          role="textbox"
+          aria-multiline="true"
+          aria-label={label}
+          contentEditable
+          suppressContentEditableWarning
+          onInput={emit}
+          onBlur={emit}
+          style={{ minHeight: 160, outline: "none" }}
+        />
+      </Box>
+      {helpText && <Text as="p" variant="bodySm" tone="subdued">{helpText}</Text>}
+    </BlockStack>
+  );
+}
@@ -0,0 +1,56 @@
+import { BlockStack, Box, Text, TextField } from "@shopify/polaris";
+import { SEO_DESCRIPTION_LIMIT, SEO_TITLE_LIMIT, type SeoFields } from "../utils/seo";
+
+interface SeoSnippetPreviewProps {
+  seo: SeoFields;
+  url: string;
+  onChange: (seo: SeoFields) => void;
+}
+
+const counter = (value: string, limit: number) => `${value.length}/${limit}`;
+
+/**
+ * Editable SEO title / meta description with a Google-style result preview.
+ */
+export function SeoSnippetPreview({ seo, url, onChange }: SeoSnippetPreviewProps) {
+  const titleTooLong = seo.title.length > SEO_TITLE_LIMIT;
+  const descriptionTooLong = seo.description.length > SEO_DESCRIPTION_LIMIT;
+
+  return (
+    <BlockStack gap="300">
+      <Text as="h3" variant="headingSm">Search engine listing</Text>
+
+      <Box padding="300" borderWidth="025" borderColor="border" borderRadius="200">
+        <BlockStack gap="100">
+          <span style={{ color: "#202124", fontSize: 12 }}>{url}</span>
+          <span style={{ color: "#1a0dab", fontSize: 18, lineHeight: 1.3 }}>
+            {seo.title || "Untitled"}
+          </span>
+          <span style={{ color: "#4d5156", fontSize: 13, lineHeight: 1.5 }}>
+            {seo.description || "No meta description"}
+          </span>
+        </BlockStack>
+      </Box>
+
+      <BlockStack gap="300">
+        <TextField
+          label="SEO title"
+          value={seo.title}
+          onChange={(title) => onChange({ ...seo, title })}
+          helpText={counter(seo.title, SEO_TITLE_LIMIT)}
+          error={titleTooLong ? `Keep it under ${SEO_TITLE_LIMIT} characters` : undefined}
+          autoComplete="off"
+        />
+        <TextField
+          label="Meta description"
+          value={seo.description}
+          onChange={(description) => onChange({ ...seo, description })}
+          multiline={3}
+          helpText={counter(seo.description, SEO_DESCRIPTION_LIMIT)}
+          error={descriptionTooLong ? `Keep it under ${SEO_DESCRIPTION_LIMIT} characters` : undefined}
+          autoComplete="off"
+        />
+      </BlockStack>
+    </BlockStack>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Box,
+  Button,
+  ChoiceList,
+  InlineStack,
+  Select,
+  Text,
+} from "@shopify/polaris";
+import { htmlToText } from "../utils/html";
+
+type LocaleOption = { locale: string; name: string };
+
+type LocalizedDraft = {
+  locale: string;
+  name: string;
+  description: string;
+  status: "draft" | "error";
+  message?: string;
+};
+
+type LocalizeResponse =
+  | { status: "success"; data: { translations: LocalizedDraft[] } }
+  | { status: "error"; message: string };
+
+interface TranslationsPanelProps {
+  productId: string;
+  locales: LocaleOption[];
+  sourceHtml: string;
+  voiceId: string;
+  format: string;
+  keywords: string;
+  // Receives the usable translations whenever they change; keep it stable (a state setter)
+  onTranslationsChange: (translations: { locale: string; description: string }[]) => void;
+}
+
+/**
+ * Per-locale previews for the current result. They are submitted with the
+ * draft and registered through the Translations API once it is published.
+ */
+export function TranslationsPanel({
+  productId,
+  locales,
+  sourceHtml,
+  voiceId,
+  format,
+  keywords,
+  onTranslationsChange,
+}: TranslationsPanelProps) {
+  const localizeFetcher = useFetcher<LocalizeResponse>();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mode, setMode] = useState("translate");
+  const [drafts, setDrafts] = useState<LocalizedDraft[]>([]);
+  // The description the current drafts were generated from
+  const [translatedFrom, setTranslatedFrom] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLocalizing = localizeFetcher.state !== "idle";
+  // Compared as text, so re-normalized markup does not count as an edit
+  const stale =
+    drafts.length > 0 && translatedFrom !== null && htmlToText(translatedFrom) !== htmlToText(sourceHtml);
+
+  // Translations belong to one product; edits to its description only mark them stale
+  useEffect(() => {
+    setDrafts([]);
+    setTranslatedFrom(null);
+  }, [productId]);
+
+  useEffect(() => {
+    const data = localizeFetcher.data;
+    if (localizeFetcher.state !== "idle" || !data) return;
+    if (data.status === "success") {
+      setDrafts(data.data.translations);
+      setError(null);
+    } else {
+      setError(data.message);
+    }
+  }, [localizeFetcher.state, localizeFetcher.data]);
+
+  useEffect(() => {
+    onTranslationsChange(
+      drafts
+        .filter((d) => d.status !== "error" && d.description)
+        .map((d) => ({ locale: d.locale, description: d.description }))
+    );
+  }, [drafts, onTranslationsChange]);
+
+  if (locales.length === 0) return null;
+
+  const handleLocalize = () => {
+    setError(null);
+    setTranslatedFrom(sourceHtml);
+    localizeFetcher.submit(
+      {
+        actionType: "localize",
+        productId,
+        locales: selected.join(","),
+        mode,
+        sourceHtml,
+        voiceId,
+        format,
+        keywords,
+      },
+      { method: "post", action: "/app/generate" }
+    );
+  };
+
+  return (
+    <BlockStack gap="300">
+      <Text as="h3" variant="headingSm">Translations</Text>
+
+      {error && (
+        <Banner tone="critical" onDismiss={() => setError(null)}>
+          <p>{error}</p>
+        </Banner>
+      )}
+
+      <InlineStack gap="400" blockAlign="start">
+        <ChoiceList
+          title="Locales"
+          allowMultiple
+          choices={locales.map((l) => ({ label: l.name, value: l.locale }))}
+          selected={selected}
+          onChange={setSelected}
+        />
+        <Select
+          label="Mode"
+          options={[
+            { label: "Translate this copy", value: "translate" },
+            { label: "Write natively per language", value: "native" },
+          ]}
+          value={mode}
+          onChange={setMode}
+        />
+      </InlineStack>
+
+      <InlineStack gap="200">
+        <Button onClick={handleLocalize} loading={isLocalizing} disabled={selected.length === 0}>
+          Generate translations
+        </Button>
+      </InlineStack>
+
+      {stale && (
+        <Banner tone="warning">
+          <p>The description changed after these translations were generated. Generate them again to match it.</p>
+        </Banner>
+      )}
+
+      {drafts.length > 0 && (
+        <Text as="p" variant="bodySm" tone="subdued">
+          Translations are submitted for review with the description and published along with it.
+        </Text>
+      )}
+
+      {drafts.map((draft) => (
+        <Box key={draft.locale} background="bg-surface-secondary" padding="300" borderRadius="200">
+          <BlockStack gap="200">
+            <InlineStack gap="200" blockAlign="center">
+              <Text as="span" fontWeight="semibold">{draft.name}</Text>
+              <Badge tone={draft.status === "error" ? "critical" : undefined}>{draft.status}</Badge>
+            </InlineStack>
+            {draft.message && <Text as="p" tone="critical">{draft.message}</Text>}
+            {draft.description && <div dangerouslySetInnerHTML={{ __html: draft.description }} />}
+          </BlockStack>
+        </Box>
+      ))}
+    </BlockStack>
+  );
+}
@@ -7,6 +7,12 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startBulkWorker } from "./services/bulk.server";
+import { startAutomationWorker } from "./services/automation.server";
+
+// Resume any bulk jobs and automation runs left unfinished by a previous process
+startBulkWorker();
+startAutomationWorker();
 
 export const streamTimeout = 5000;
 
@@ -1,17 +1,15 @@
 // Converted to Shopify Polaris version
 // Note: Structure and logic unchanged. Components swapped to Polaris equivalents.
 
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   Card,
   Page,
   Layout,
   TextField,
   IndexTable,
-  useIndexResourceState,
   Button,
   Select,
-  Icon,
   InlineStack,
   InlineGrid,
   BlockStack,
@@ -20,159 +18,428 @@ import {
   Checkbox,
   Banner,
   Toast,
-  Frame
-} from "@shopify/polaris";
-import {
-  Sparkles,
-  Save,
-  Copy,
-  Terminal,
-  Sliders,
-  AlignLeft,
   List,
-  Share2,
-  Check,
-  Hash
-} from "lucide-react";
+  Frame,
+  Pagination,
+  useIndexResourceState
+} from "@shopify/polaris";
+import { Sparkles } from "lucide-react";
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
-import { useLoaderData } from "@remix-run/react";
+import { listVoices } from "../services/voices.server";
+import {
+  listCollections,
+  searchProducts,
+  type DescriptionFilter,
+  type ProductListItem,
+  type ProductSearch,
+} from "../services/products.server";
+import { getPublishedLocales } from "../services/translations.server";
+import { TranslationsPanel } from "../components/TranslationsPanel";
+import { SeoSnippetPreview } from "../components/SeoSnippetPreview";
+import { DescriptionDiff } from "../components/DescriptionDiff";
+import { RichTextEditor } from "../components/RichTextEditor";
+import { CandidatePicker, type Candidate } from "../components/CandidatePicker";
+import { RefinementPanel, type DraftVersion } from "../components/RefinementPanel";
+import { ContentScorePanel } from "../components/ContentScorePanel";
+import { DEFAULT_MIN_SCORE } from "../utils/content-score";
+import { CANDIDATE_STYLES } from "../services/deepseek.server";
+import { SEO_DESCRIPTION_LIMIT, SEO_TITLE_LIMIT, type SeoFields } from "../utils/seo";
+import { Link, useFetcher, useLoaderData, useNavigate, useNavigation, useSearchParams } from "@remix-run/react";
+
+type DashboardProduct = ProductListItem;
+
+type GeneratedContent = {
+  description: string;
+  socials?: { twitter?: string; instagram?: string } | null;
+  seo?: SeoFields | null;
+  currentDescription?: string;
+  candidates?: Candidate[];
+  candidateGroup?: string;
+};
 
-export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
-
-  const response = await admin.graphql(
-    `#graphql
-    query GetProducts {
-      products(first: 20) {
-        nodes {
-          id
-          title
-          description
-          metafields(first:10){
-            edges {
-              node {
-                key
-                namespace
-              }
-            }
-          }
-        }
-      }
-    }`
-  );
+// Shapes returned by the action in app.generate.ts
+type GenerateResponse =
+  | { status: "success"; data: GeneratedContent }
+  | { status: "error"; message: string };
+
+type SubmitResponse =
+  | { status: "submitted"; message: string; data: { draftId: string; descriptionHtml: string; removed: string[] } }
+  | { status: "error"; message: string };
+
+// Search params owned by the product list; changing any filter drops the cursors
+const FILTER_PARAMS = ["q", "collection", "vendor", "type", "status", "description"] as const;
+const CURSOR_PARAMS = ["after", "before"] as const;
+
+const STATUSES = ["active", "draft", "archived"];
+
+// Typed into text fields, so applied after a pause rather than per keystroke
+const TEXT_FILTERS = ["q", "vendor", "type"] as const;
+
+const readTextFilters = (params: URLSearchParams) =>
+  Object.fromEntries(TEXT_FILTERS.map((key) => [key, params.get(key) ?? ""])) as Record<
+    (typeof TEXT_FILTERS)[number],
+    string
+  >;
+
+function parseProductSearch(params: URLSearchParams): ProductSearch {
+  const status = params.get("status") ?? "";
+  const description = params.get("description") ?? "";
+  return {
+    query: params.get("q") ?? "",
+    collectionId: params.get("collection") ?? "",
+    vendor: params.get("vendor") ?? "",
+    productType: params.get("type") ?? "",
+    status: (STATUSES.includes(status) ? status : "") as ProductSearch["status"],
+    description: (["missing", "short"].includes(description) ? description : "") as DescriptionFilter,
+  };
+}
 
-  const data = await response.json();
-  return json({ products: data.data?.products?.nodes ?? [] });
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const params = new URL(request.url).searchParams;
+
+  const [page, collections, voices] = await Promise.all([
+    searchProducts(admin, parseProductSearch(params), {
+      after: params.get("after"),
+      before: params.get("before"),
+    }),
+    listCollections(admin),
+    listVoices(session.shop),
+  ]);
+
+  // Stores installed before read_locales was granted simply get no translations
+  const locales = await getPublishedLocales(admin).catch(() => []);
+
+  return json({
+    shop: session.shop,
+    products: page.products,
+    pageInfo: page.pageInfo,
+    collections,
+    voices: voices.map((v) => ({ id: v.id, name: v.name })),
+    locales: locales.filter((l) => !l.primary).map((l) => ({ locale: l.locale, name: l.name })),
+    maxCandidates: CANDIDATE_STYLES.length,
+  });
 };
 
 export default function Dashboard() {
-  const PRODUCTS = useLoaderData<typeof loader>().products;
-
-  const [selectedProduct, setSelectedProduct] = useState(null);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [vibe, setVibe] = useState("edgy");
+  const { shop, products: PRODUCTS, pageInfo, collections, voices, locales, maxCandidates } =
+    useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigation = useNavigation();
+  const navigate = useNavigate();
+  const generateFetcher = useFetcher<GenerateResponse>();
+  const submitFetcher = useFetcher<SubmitResponse>();
+
+  const [selectedProduct, setSelectedProduct] = useState<DashboardProduct | null>(null);
+  const [textFilters, setTextFilters] = useState(() => readTextFilters(searchParams));
+  const textFilterTimeout = useRef<ReturnType<typeof setTimeout>>();
+  const [voiceId, setVoiceId] = useState("edgy");
   const [format, setFormat] = useState("paragraph");
   const [keywords, setKeywords] = useState("");
   const [includeSocials, setIncludeSocials] = useState(false);
-  const [generatedContent, setGeneratedContent] = useState(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [candidateCount, setCandidateCount] = useState("1");
+  const [rewriteLowScores, setRewriteLowScores] = useState(false);
+  const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null);
+  // Candidates the draft was taken or merged from; marked as chosen in history on publish
+  const [chosenIds, setChosenIds] = useState<string[]>([]);
+  const [seo, setSeo] = useState<SeoFields>({ title: "", description: "" });
+  const [translations, setTranslations] = useState<{ locale: string; description: string }[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // What the sanitizer dropped from the last submission, e.g. ["<span>", "style attribute"]
+  const [strippedMarkup, setStrippedMarkup] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
   const [toast, setToast] = useState(false);
 
-  const filteredProducts = PRODUCTS.filter((p, index) => {
-    const match = p.title.toLowerCase().includes(searchTerm.toLowerCase());
-    if (searchTerm.trim() === "") return index < 5;
-    return match;
-  });
+  const isGenerating = generateFetcher.state !== "idle";
+  const isSubmitting = submitFetcher.state !== "idle";
+  const seoTooLong = seo.title.length > SEO_TITLE_LIMIT || seo.description.length > SEO_DESCRIPTION_LIMIT;
+
+  const isLoadingProducts = navigation.state === "loading" && navigation.location?.pathname === "/app";
+  const { selectedResources, allResourcesSelected, handleSelectionChange, clearSelection } =
+    useIndexResourceState(PRODUCTS);
+
+  // Checkbox selection is per page; a new page or filter starts empty
+  useEffect(() => {
+    clearSelection();
+  }, [PRODUCTS, clearSelection]);
+
+  // Applied to the URL as it is when this runs, so a delayed text filter keeps newer changes
+  const setFilters = (values: Partial<Record<(typeof FILTER_PARAMS)[number], string>>) => {
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        for (const [key, value] of Object.entries(values)) {
+          if (value) next.set(key, value);
+          else next.delete(key);
+        }
+        CURSOR_PARAMS.forEach((c) => next.delete(c));
+        return next;
+      },
+      { replace: true }
+    );
+  };
+  const setFilter = (key: (typeof FILTER_PARAMS)[number], value: string) => setFilters({ [key]: value });
+
+  const goToPage = (cursor: (typeof CURSOR_PARAMS)[number], value: string | null) => {
+    if (!value) return;
+    const next = new URLSearchParams(searchParams);
+    CURSOR_PARAMS.forEach((c) => next.delete(c));
+    next.set(cursor, value);
+    setSearchParams(next);
+  };
+
+  // Search as the merchant types, without a request per keystroke
+  const changeTextFilter = (key: (typeof TEXT_FILTERS)[number], value: string) => {
+    const typed = { ...textFilters, [key]: value };
+    setTextFilters(typed);
+    clearTimeout(textFilterTimeout.current);
+    const current = readTextFilters(searchParams);
+    if (TEXT_FILTERS.every((k) => typed[k].trim() === current[k])) return;
+    textFilterTimeout.current = setTimeout(
+      () => setFilters(Object.fromEntries(TEXT_FILTERS.map((k) => [k, typed[k].trim()]))),
+      300
+    );
+  };
+
+  useEffect(() => () => clearTimeout(textFilterTimeout.current), []);
+
+  const handleBulkGenerate = () => {
+    navigate(`/app/bulk?productIds=${encodeURIComponent(selectedResources.join(","))}`);
+  };
+
+  useEffect(() => {
+    const data = generateFetcher.data;
+    if (generateFetcher.state !== "idle" || !data) return;
+    if (data.status === "success") {
+      setGeneratedContent(data.data);
+      setChosenIds(data.data.candidates?.slice(0, 1).map((c) => c.historyId) ?? []);
+      setSeo(data.data.seo ?? { title: "", description: "" });
+      setErrorMessage(null);
+    } else {
+      setErrorMessage(data.message);
+    }
+  }, [generateFetcher.state, generateFetcher.data]);
+
+  useEffect(() => {
+    const data = submitFetcher.data;
+    if (submitFetcher.state !== "idle" || !data) return;
+    if (data.status === "submitted") {
+      const { descriptionHtml, removed } = data.data;
+      // Show what was stored for review; the live description is unchanged until publish
+      setGeneratedContent((current) => current && { ...current, description: descriptionHtml });
+      setStrippedMarkup(removed);
+      setErrorMessage(null);
+      setToast(true);
+    } else {
+      setErrorMessage(data.message);
+    }
+  }, [submitFetcher.state, submitFetcher.data]);
 
   const handleGenerate = () => {
     if (!selectedProduct) return;
-    setIsGenerating(true);
     setGeneratedContent(null);
-
-    setTimeout(() => {
-      const html =
-        format === "bullets"
-          ? `<ul>
-              <li><strong>Bold:</strong> This ${selectedProduct.title} features ${keywords || "premium specs"}.</li>
-              <li><strong>Design:</strong> Built for performance.</li>
-            </ul>`
-          : `<p>The ${selectedProduct.title} is designed with ${keywords || "high-quality materials"} for unbeatable value.</p>`;
-
-      const socials = includeSocials
-        ? {
-            twitter: `Just tried ${selectedProduct.title}. Game changer. 🚀`,
-            instagram: `Upgrade time.\n.\n#${vibe} #dailycarry`
-          }
-        : null;
-
-      setGeneratedContent({ description: html, socials });
-      setIsGenerating(false);
-    }, 1500);
+    setErrorMessage(null);
+    setStrippedMarkup([]);
+
+    generateFetcher.submit(
+      {
+        actionType: "generate",
+        productId: selectedProduct.id,
+        voiceId,
+        format,
+        keywords,
+        includeSocials: String(includeSocials),
+        bypassCache: String(bypassCache),
+        candidates: candidateCount,
+        minScore: rewriteLowScores ? String(DEFAULT_MIN_SCORE) : "0",
+      },
+      { method: "post", action: "/app/generate" }
+    );
   };
 
-  const handleSave = () => {
+  const applyCandidate = (candidate: Candidate) => {
     if (!generatedContent) return;
+    setGeneratedContent({ ...generatedContent, description: candidate.description, socials: candidate.socials });
+    setSeo(candidate.seo ?? { title: "", description: "" });
+    setChosenIds([candidate.historyId]);
+  };
 
-    setIsSaving(true);
-    setTimeout(() => {
-      setIsSaving(false);
-      setToast(true);
-      setTimeout(() => setToast(false), 2500);
-    }, 1200);
+  // Refinements belong to the draft the editor started from
+  const refiningDraft = generatedContent?.candidates?.find((c) => c.historyId === chosenIds[0]);
+
+  const restoreVersion = useCallback((version: DraftVersion) => {
+    setGeneratedContent((current) =>
+      current && { ...current, description: version.description, socials: version.socials ?? current.socials }
+    );
+    if (version.seo) setSeo(version.seo);
+  }, []);
+
+  // Merged drafts keep the SEO and socials of the first candidate used
+  const mergeCandidates = (html: string, sources: Candidate[]) => {
+    if (!generatedContent || sources.length === 0) return;
+    setGeneratedContent({ ...generatedContent, description: html, socials: sources[0].socials });
+    setSeo(sources[0].seo ?? { title: "", description: "" });
+    setChosenIds(sources.map((c) => c.historyId));
   };
 
-  
+  const handleSubmit = () => {
+    if (!selectedProduct || !generatedContent) return;
+    setErrorMessage(null);
+    setStrippedMarkup([]);
+
+    submitFetcher.submit(
+      {
+        actionType: "submit",
+        productId: selectedProduct.id,
+        descriptionHtml: generatedContent.description,
+        ...(refiningDraft ? { historyId: refiningDraft.historyId } : {}),
+        ...(generatedContent.candidateGroup
+          ? { candidateGroup: generatedContent.candidateGroup, chosenIds: chosenIds.join(",") }
+          : {}),
+        // Leave the product's existing SEO alone when there is nothing to write
+        ...(seo.title || seo.description ? { seoTitle: seo.title, seoDescription: seo.description } : {}),
+        ...(translations.length ? { translations: JSON.stringify(translations) } : {}),
+      },
+      { method: "post", action: "/app/generate" }
+    );
+  };
 
   return (
     <Frame>
       <Page title="Deskribe-AI" subtitle="AI-powered product copy">
         <Layout>
 
+          {errorMessage && (
+            <Layout.Section>
+              <Banner tone="critical" title="Something went wrong" onDismiss={() => setErrorMessage(null)}>
+                <p>{errorMessage}</p>
+              </Banner>
+            </Layout.Section>
+          )}
+
           {/* LEFT COLUMN */}
           <Layout.Section>
+            <BlockStack gap="400">
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Select a Product</Text>
+                <TextField
+                  label="Search products"
+                  value={textFilters.q}
+                  onChange={(q) => changeTextFilter("q", q)}
+                  placeholder="Title, SKU, tag…"
+                  clearButton
+                  onClearButtonClick={() => changeTextFilter("q", "")}
+                  autoComplete="off"
+                />
+
+                <InlineGrid columns={{ xs: 2, md: 5 }} gap="300">
+                  <Select
+                    label="Collection"
+                    options={[
+                      { label: "All", value: "" },
+                      ...collections.map((c) => ({ label: c.title, value: c.id })),
+                    ]}
+                    value={searchParams.get("collection") ?? ""}
+                    onChange={(value) => setFilter("collection", value)}
+                  />
+                  <TextField
+                    label="Vendor"
+                    value={textFilters.vendor}
+                    onChange={(vendor) => changeTextFilter("vendor", vendor)}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Product type"
+                    value={textFilters.type}
+                    onChange={(type) => changeTextFilter("type", type)}
+                    autoComplete="off"
+                  />
+                  <Select
+                    label="Status"
+                    options={[
+                      { label: "Any", value: "" },
+                      { label: "Active", value: "active" },
+                      { label: "Draft", value: "draft" },
+                      { label: "Archived", value: "archived" },
+                    ]}
+                    value={searchParams.get("status") ?? ""}
+                    onChange={(value) => setFilter("status", value)}
+                  />
+                  <Select
+                    label="Description"
+                    options={[
+                      { label: "Any", value: "" },
+                      { label: "Empty", value: "missing" },
+                      { label: "Empty or short", value: "short" },
+                    ]}
+                    value={searchParams.get("description") ?? ""}
+                    onChange={(value) => setFilter("description", value)}
+                  />
+                </InlineGrid>
 
-            <Card title="Select a Product" sectioned>
-              <TextField
-                label="Search products"
-                value={searchTerm}
-                onChange={setSearchTerm}
-                autoComplete="off"
-              />
-
-              <IndexTable
-                resourceName={{ singular: "product", plural: "products" }}
-                itemCount={filteredProducts.length}
-                
-                
-                headings={[{ title: "Product" }, { title: "Metafields" }]}
-              >
-                {filteredProducts.map((p, index) => (
-                  <IndexTable.Row
-                    id={p.id}
-                    key={p.id}
-                    selected={selectedProduct?.id === p.id}
-                    onClick={() => setSelectedProduct(p)}
-                  >
-                    <IndexTable.Cell>{p.title}</IndexTable.Cell>
-                    <IndexTable.Cell>{p.metafields.edges.length}</IndexTable.Cell>
-                  </IndexTable.Row>
-                ))}
-              </IndexTable>
-
-              {selectedProduct && (
-                <div style={{ marginTop: "1rem" }}>
-                  <Text as="h4" variant="headingMd">Selected Product:</Text>
-                  <Text>{selectedProduct.title}</Text>
-                </div>
-              )}
+                <IndexTable
+                  resourceName={{ singular: "product", plural: "products" }}
+                  itemCount={PRODUCTS.length}
+                  selectedItemsCount={allResourcesSelected ? "All" : selectedResources.length}
+                  onSelectionChange={handleSelectionChange}
+                  promotedBulkActions={[
+                    { content: "Generate in bulk", onAction: handleBulkGenerate },
+                    {
+                      content: "Write alt text",
+                      onAction: () =>
+                        navigate(`/app/alt-text?productIds=${encodeURIComponent(selectedResources.join(","))}`),
+                    },
+                  ]}
+                  loading={isLoadingProducts}
+                  emptyState={<Text as="p" tone="subdued">No products match these filters.</Text>}
+                  headings={[{ title: "Product" }, { title: "Status" }, { title: "Metafields" }]}
+                >
+                  {PRODUCTS.map((p, index) => (
+                    <IndexTable.Row
+                      id={p.id}
+                      key={p.id}
+                      position={index}
+                      selected={selectedResources.includes(p.id)}
+                      onClick={() => setSelectedProduct(p)}
+                    >
+                      <IndexTable.Cell>
+                        <Text as="span" fontWeight={selectedProduct?.id === p.id ? "bold" : "regular"}>
+                          {p.title}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{p.status.toLowerCase()}</IndexTable.Cell>
+                      <IndexTable.Cell>{p.metafields.edges.length}</IndexTable.Cell>
+                    </IndexTable.Row>
+                  ))}
+                </IndexTable>
+
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={pageInfo.hasPreviousPage}
+                    onPrevious={() => goToPage("before", pageInfo.startCursor)}
+                    hasNext={pageInfo.hasNextPage}
+                    onNext={() => goToPage("after", pageInfo.endCursor)}
+                  />
+                </InlineStack>
+
+                {selectedProduct && (
+                  <BlockStack gap="100">
+                    <Text as="h4" variant="headingMd">Selected Product:</Text>
+                    <Text as="p">{selectedProduct.title}</Text>
+                  </BlockStack>
+                )}
+              </BlockStack>
             </Card>
 
             {/* CONFIGURATION */}
-              <Card title="Configuration"  sectioned>
+            <Card>
               <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">Configuration</Text>
 
                 {/* Vibe */}
                 <div>
@@ -182,131 +449,236 @@ export default function Dashboard() {
                     </InlineStack>
                   </Text>
 
-                  <InlineStack gap="300">
-                    {["edgy", "minimalist", "roast"].map((v) => (
+                  <InlineStack gap="300" blockAlign="center">
+                    {voices.map((v) => (
                       <Button
-                        key={v}
-                        pressed={vibe === v}
-                        onClick={() => setVibe(v)}
+                        key={v.id}
+                        pressed={voiceId === v.id}
+                        onClick={() => setVoiceId(v.id)}
                       >
-                        {v === "roast" ? "Real Talk" : v}
+                        {v.name}
                       </Button>
                     ))}
+                    <Link to="/app/settings">Manage voices</Link>
                   </InlineStack>
                 </div>
 
-                {/* Format / keywords */}
-                <InlineGrid columns={2} gap="400">
-                  <div>
-                    <Text as="h3" variant="headingSm">
-                      <InlineStack gap="200"><Sparkles size={14} /> Format</InlineStack>
-                    </Text>
-                    <Select
-                      options={[
-                        { label: "Paragraph", value: "paragraph" },
-                        { label: "Bullet Points", value: "bullets" }
-                      ]} value={format}
-                      onChange={setFormat}
-                    />
-                  </div>
+                {/* Format / keywords / candidates */}
+                <InlineGrid columns={3} gap="400">
+                  <Select
+                    label="Format"
+                    options={[
+                      { label: "Paragraph", value: "paragraph" },
+                      { label: "Bullet Points", value: "bullets" }
+                    ]}
+                    value={format}
+                    onChange={setFormat}
+                  />
 
-                  <div>
-                    <Text as="h3" variant="headingSm">
-                      <InlineStack gap="200"><Sparkles size={14} /> SEO Keywords</InlineStack>
-                    </Text>
-                    <TextField
-                      value={keywords}
-                      onChange={setKeywords}
-                      placeholder="organic, waterproof"
-                    />
-                  </div>
+                  <TextField
+                    label="SEO Keywords"
+                    value={keywords}
+                    onChange={setKeywords}
+                    placeholder="organic, waterproof"
+                    autoComplete="off"
+                  />
+
+                  <Select
+                    label="Candidates"
+                    options={Array.from({ length: maxCandidates }, (_, i) => String(i + 1))}
+                    value={candidateCount}
+                    onChange={setCandidateCount}
+                    helpText="Each candidate counts as one generation"
+                  />
                 </InlineGrid>
 
                 <InlineStack align="space-between">
-                  <Checkbox
-                    label="Generate Social Media Posts"
-                    checked={includeSocials}
-                    onChange={setIncludeSocials}
-                  />
+                  <InlineStack gap="400">
+                    <Checkbox
+                      label="Generate Social Media Posts"
+                      checked={includeSocials}
+                      onChange={setIncludeSocials}
+                    />
+                    <Checkbox
+                      label="Bypass cache"
+                      helpText="Write fresh copy instead of reusing an identical recent result"
+                      checked={bypassCache}
+                      onChange={setBypassCache}
+                    />
+                    <Checkbox
+                      label="Rewrite low scores"
+                      helpText={`Regenerate once when a draft's content score is below ${DEFAULT_MIN_SCORE}`}
+                      checked={rewriteLowScores}
+                      onChange={setRewriteLowScores}
+                    />
+                  </InlineStack>
 
                   <Button
-                    primary
+                    variant="primary"
                     onClick={handleGenerate}
                     disabled={!selectedProduct || isGenerating}
+                    loading={isGenerating}
                   >
-                    {isGenerating ? <Spinner size="small"/> : <Sparkles size={14} />} &nbsp;
-                    {isGenerating ? "Writing Copy..." : "Generate Content"}
+                    Generate Content
                   </Button>
                 </InlineStack>
               </BlockStack>
             </Card>
-           
 
             {/* RESULTS */}
+            {isGenerating && (
+              <Card>
+                <InlineStack gap="200" blockAlign="center">
+                  <Spinner size="small" />
+                  <Text as="p">Writing Copy...</Text>
+                </InlineStack>
+              </Card>
+            )}
+
             {generatedContent && (
-              <Card title="Results" sectioned>
+              <Card>
                 <BlockStack gap="400">
                   <InlineStack align="space-between">
-                    <Text variant="headingMd">AI Generated</Text>
-                    <Button
-                      onClick={() => navigator.clipboard.writeText(generatedContent.description)}
-                      icon={<Sparkles size={14} />}
-                    >Copy HTML</Button>
+                    <Text as="h2" variant="headingMd">AI Generated</Text>
+                    <InlineStack gap="200">
+                      <Button pressed={showDiff} onClick={() => setShowDiff(!showDiff)}>
+                        Compare with current
+                      </Button>
+                      <Button
+                        onClick={() => navigator.clipboard.writeText(generatedContent.description)}
+                      >Copy HTML</Button>
+                    </InlineStack>
                   </InlineStack>
 
-                  <div
-                    dangerouslySetInnerHTML={{ __html: generatedContent.description }}
-                  />
+                  {generatedContent.candidates && generatedContent.candidates.length > 1 && (
+                    <CandidatePicker
+                      key={generatedContent.candidateGroup}
+                      candidates={generatedContent.candidates}
+                      chosenIds={chosenIds}
+                      onUse={applyCandidate}
+                      onMerge={mergeCandidates}
+                    />
+                  )}
+
+                  {showDiff ? (
+                    <DescriptionDiff
+                      before={generatedContent.currentDescription ?? ""}
+                      after={generatedContent.description}
+                    />
+                  ) : (
+                    <RichTextEditor
+                      label="Description"
+                      value={generatedContent.description}
+                      onChange={(description) => setGeneratedContent({ ...generatedContent, description })}
+                      helpText="Edit before submitting. Markup outside the allowed formatting is removed on submit."
+                    />
+                  )}
+
+                  <ContentScorePanel html={generatedContent.description} keywords={keywords} format={format} />
+
+                  {refiningDraft?.guardrail?.status === "flagged" && (
+                    <Banner tone="critical" title="The generated draft breaks your content guardrails">
+                      <List>
+                        {refiningDraft.guardrail.violations.map((violation) => (
+                          <List.Item key={violation.message}>{violation.message}</List.Item>
+                        ))}
+                      </List>
+                    </Banner>
+                  )}
+
+                  {strippedMarkup.length > 0 && (
+                    <Banner tone="warning" title="Some markup was removed before submitting" onDismiss={() => setStrippedMarkup([])}>
+                      <p>Not allowed in descriptions: {strippedMarkup.join(", ")}. The submitted version is shown above.</p>
+                    </Banner>
+                  )}
 
                   {generatedContent.socials && (
-                    <div>
-                      <Text variant="headingSm">
+                    <BlockStack gap="300">
+                      <Text as="h3" variant="headingSm">
                         <InlineStack gap="200"><Sparkles size={14} /> Social Sidecar</InlineStack>
                       </Text>
 
-                      <BlockStack gap="300">
-                        <Card>
-                          <Text>X (Twitter)</Text>
-                          <Text>{generatedContent.socials.twitter}</Text>
-                        </Card>
-
-                        <Card>
-                          <Text>Instagram</Text>
-                          <Text>{generatedContent.socials.instagram}</Text>
-                        </Card>
-                      </BlockStack>
-                    </div>
+                      <Card>
+                        <Text as="p" fontWeight="semibold">X (Twitter)</Text>
+                        <Text as="p">{generatedContent.socials.twitter}</Text>
+                      </Card>
+
+                      <Card>
+                        <Text as="p" fontWeight="semibold">Instagram</Text>
+                        <Text as="p">{generatedContent.socials.instagram}</Text>
+                      </Card>
+                    </BlockStack>
                   )}
 
-                  <Button primary onClick={handleSave} disabled={isSaving}>
-                    {isSaving ? <Spinner size="small"/> : <Sparkles size={14} />}
-                    &nbsp; {isSaving ? "Publishing..." : "Save to Product"}
-                  </Button>
+                  {selectedProduct && (
+                    <SeoSnippetPreview
+                      seo={seo}
+                      url={`https://${shop}/products/${selectedProduct.handle}`}
+                      onChange={setSeo}
+                    />
+                  )}
+
+                  {refiningDraft && (
+                    <RefinementPanel
+                      key={generatedContent.candidateGroup}
+                      historyId={refiningDraft.historyId}
+                      original={refiningDraft}
+                      current={{ description: generatedContent.description, seo }}
+                      onRestore={restoreVersion}
+                    />
+                  )}
+
+                  <InlineStack gap="300" blockAlign="center">
+                    <Button variant="primary" onClick={handleSubmit} disabled={isSubmitting || seoTooLong} loading={isSubmitting}>
+                      Submit for review
+                    </Button>
+                    <Text as="span" tone="subdued">
+                      Approved drafts are published from <Link to="/app/approvals">Approvals</Link>.
+                    </Text>
+                  </InlineStack>
+
+                  {selectedProduct && (
+                    <TranslationsPanel
+                      productId={selectedProduct.id}
+                      locales={locales}
+                      sourceHtml={generatedContent.description}
+                      voiceId={voiceId}
+                      format={format}
+                      keywords={keywords}
+                      onTranslationsChange={setTranslations}
+                    />
+                  )}
                 </BlockStack>
               </Card>
             )}
+            </BlockStack>
           </Layout.Section>
 
           {/* RIGHT SIDEBAR */}
-          <Layout.Section secondary>
-            <Card title="How it works" sectioned>
-              <p>This app analyzes product <strong>metafields</strong> & title to generate high-impact copy.</p>
-              <ul>
-                <li>Select a product</li>
-                <li>Choose vibe</li>
-                <li>Generate & publish</li>
-              </ul>
-            </Card>
+          <Layout.Section variant="oneThird">
+            <BlockStack gap="400">
+              <Card>
+                <BlockStack gap="200">
+                  <Text as="h2" variant="headingMd">How it works</Text>
+                  <p>This app analyzes product <strong>metafields</strong> & title to generate high-impact copy.</p>
+                  <ul>
+                    <li>Select a product</li>
+                    <li>Choose vibe</li>
+                    <li>Generate & publish</li>
+                  </ul>
+                </BlockStack>
+              </Card>
 
-            <Text alignment="center" variant="bodySm" tone="subdued" style={{ marginTop: "1rem" }}>
-              v1.3.0-simulation
-            </Text>
+              <Text as="p" alignment="center" variant="bodySm" tone="subdued">
+                v1.3.0
+              </Text>
+            </BlockStack>
           </Layout.Section>
 
         </Layout>
 
         {toast && (
-          <Toast content="Product updated successfully" onDismiss={() => setToast(false)} />
+          <Toast content="Sent for review" onDismiss={() => setToast(false)} />
         )}
 
       </Page>
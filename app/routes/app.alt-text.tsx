@@ -0,0 +1,343 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData, useNavigate, type ShouldRevalidateFunction } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Banner,
+  Button,
+  TextField,
+  Thumbnail,
+  EmptyState,
+} from "@shopify/polaris";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { deepseek } from "../services/deepseek.server";
+import {
+  fetchProductForGeneration,
+  fetchProductMedia,
+  updateMediaAlt,
+  type ProductImage,
+} from "../services/products.server";
+import { ALT_TEXT_LIMIT } from "../utils/alt-text";
+
+// Each product costs one generation
+const MAX_PRODUCTS = 25;
+// Products per generate request; the page works through larger selections a batch at a time
+// so no single request runs long enough to hit the embedded admin's timeout
+const GENERATE_BATCH_SIZE = 3;
+
+type AltResult = { productId: string; images?: { id: string; alt: string }[]; message?: string };
+
+type GenerateResponse =
+  | { status: "success"; data: { results: AltResult[] } }
+  | { status: "error"; message: string };
+
+type SaveResponse =
+  | { status: "saved"; data: { results: { productId: string; message?: string }[] } }
+  | { status: "error"; message: string };
+
+const parseIds = (value: string | null) =>
+  (value ?? "").split(",").map((id) => id.trim()).filter(Boolean).slice(0, MAX_PRODUCTS);
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { admin } = await authenticate.admin(request);
+  const productIds = parseIds(new URL(request.url).searchParams.get("productIds"));
+
+  const products = [];
+  for (const id of productIds) {
+    const product = await fetchProductMedia(admin, id);
+    if (product) products.push(product);
+  }
+  return json({ products });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const formData = await request.formData();
+  const actionType = formData.get("actionType");
+
+  if (actionType === "generate") {
+    const productIds = parseIds(String(formData.get("productIds") || ""));
+    if (productIds.length === 0) {
+      return json({ status: "error", message: "Choose at least one product" }, { status: 400 });
+    }
+    if (productIds.length > GENERATE_BATCH_SIZE) {
+      return json(
+        { status: "error", message: `Generate for at most ${GENERATE_BATCH_SIZE} products per request` },
+        { status: 400 }
+      );
+    }
+
+    // Sequential on purpose: each product counts against the per-minute rate limit
+    const results: AltResult[] = [];
+    for (const productId of productIds) {
+      try {
+        const [product, media] = await Promise.all([
+          fetchProductForGeneration(admin, productId),
+          fetchProductMedia(admin, productId),
+        ]);
+        if (!product || !media) {
+          results.push({ productId, message: "Product not found" });
+          continue;
+        }
+        if (media.images.length === 0) {
+          results.push({ productId, images: [] });
+          continue;
+        }
+        const { images } = await deepseek.generateAltText({ product, images: media.images, shop });
+        results.push({ productId, images });
+      } catch (error) {
+        results.push({
+          productId,
+          message: error instanceof Error ? error.message : "Failed to generate alt text",
+        });
+      }
+    }
+
+    return json({ status: "success", data: { results } });
+  }
+
+  if (actionType === "save") {
+    try {
+      const parsed: { productId: string; images: { id: string; alt: string }[] }[] = JSON.parse(
+        String(formData.get("media") || "[]")
+      );
+      if (parsed.some((p) => p.images.some((image) => image.alt.trim().length > ALT_TEXT_LIMIT))) {
+        return json(
+          { status: "error", message: `Alt text must be at most ${ALT_TEXT_LIMIT} characters` },
+          { status: 400 }
+        );
+      }
+
+      const results = [];
+      for (const { productId, images } of parsed) {
+        if (images.length === 0) continue;
+        const { userErrors } = await updateMediaAlt(
+          admin,
+          productId,
+          images.map((image) => ({ id: image.id, alt: image.alt.trim() }))
+        );
+        results.push({ productId, message: userErrors[0]?.message });
+      }
+
+      return json({ status: "saved", data: { results } });
+    } catch (error) {
+      console.error("Alt text save error:", error);
+      return json({ status: "error", message: "Failed to save alt text" }, { status: 500 });
+    }
+  }
+
+  return json({ status: "error", message: "Invalid action" }, { status: 400 });
+}
+
+// Generating only fills drafts; reloading media would wipe them
+export const shouldRevalidate: ShouldRevalidateFunction = ({ formData, defaultShouldRevalidate }) =>
+  formData?.get("actionType") === "generate" ? false : defaultShouldRevalidate;
+
+type ProductMedia = { id: string; title: string; images: ProductImage[] };
+
+export default function AltTextPage() {
+  const { products } = useLoaderData<typeof loader>();
+  const generateFetcher = useFetcher<GenerateResponse>();
+  const saveFetcher = useFetcher<SaveResponse>();
+  const navigate = useNavigate();
+  const shopify = useAppBridge();
+
+  // Edited alt text keyed by media id; starts from what Shopify has today
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [productErrors, setProductErrors] = useState<Record<string, string>>({});
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Everything the current run covers, and what is still waiting for a batch
+  const [generatingIds, setGeneratingIds] = useState<string[]>([]);
+  const queue = useRef<string[]>([]);
+  const submitGenerate = generateFetcher.submit;
+
+  const valueOf = (image: ProductImage) => drafts[image.id] ?? image.alt;
+
+  useEffect(() => {
+    setDrafts({});
+    setProductErrors({});
+  }, [products]);
+
+  useEffect(() => {
+    const data = generateFetcher.data;
+    if (generateFetcher.state !== "idle" || !data) return;
+    if (data.status === "error") {
+      queue.current = [];
+      setGeneratingIds([]);
+      setErrorMessage(data.message);
+      return;
+    }
+    const next: Record<string, string> = {};
+    for (const result of data.data.results) {
+      for (const image of result.images ?? []) next[image.id] = image.alt;
+    }
+    setDrafts((current) => ({ ...current, ...next }));
+    setProductErrors((current) => {
+      const errors = { ...current };
+      for (const result of data.data.results) {
+        if (result.message) errors[result.productId] = result.message;
+        else delete errors[result.productId];
+      }
+      return errors;
+    });
+
+    const batch = queue.current.splice(0, GENERATE_BATCH_SIZE);
+    if (batch.length > 0) {
+      submitGenerate({ actionType: "generate", productIds: batch.join(",") }, { method: "post" });
+    } else {
+      setGeneratingIds([]);
+    }
+  }, [generateFetcher.state, generateFetcher.data, submitGenerate]);
+
+  useEffect(() => {
+    const data = saveFetcher.data;
+    if (saveFetcher.state !== "idle" || !data) return;
+    if (data.status === "error") {
+      setErrorMessage(data.message);
+      return;
+    }
+    const failed = data.data.results.filter((r) => r.message);
+    setProductErrors(Object.fromEntries(failed.map((r) => [r.productId, r.message!])));
+    if (failed.length === 0) shopify.toast.show("Alt text saved");
+  }, [saveFetcher.state, saveFetcher.data, shopify]);
+
+  const handlePick = async () => {
+    const picked = await shopify.resourcePicker({
+      type: "product",
+      multiple: MAX_PRODUCTS,
+      selectionIds: products.map((p) => ({ id: p.id })),
+    });
+    if (!picked) return;
+    navigate(`/app/alt-text?productIds=${encodeURIComponent(picked.map((p) => p.id).join(","))}`);
+  };
+
+  const generate = (productIds: string[]) => {
+    setErrorMessage(null);
+    setGeneratingIds(productIds);
+    queue.current = productIds.slice(GENERATE_BATCH_SIZE);
+    submitGenerate(
+      { actionType: "generate", productIds: productIds.slice(0, GENERATE_BATCH_SIZE).join(",") },
+      { method: "post" }
+    );
+  };
+
+  const changed = (product: ProductMedia) =>
+    product.images.filter((image) => valueOf(image).trim() !== image.alt);
+
+  const changedCount = products.reduce((sum, p) => sum + changed(p).length, 0);
+  const tooLong = products.some((p) => p.images.some((image) => valueOf(image).trim().length > ALT_TEXT_LIMIT));
+
+  const handleSave = () => {
+    setErrorMessage(null);
+    const media = products
+      .map((p) => ({ productId: p.id, images: changed(p).map((image) => ({ id: image.id, alt: valueOf(image) })) }))
+      .filter((p) => p.images.length > 0);
+    saveFetcher.submit({ actionType: "save", media: JSON.stringify(media) }, { method: "post" });
+  };
+
+  const isGenerating = generatingIds.length > 0;
+  const isSaving = saveFetcher.state !== "idle";
+
+  return (
+    <Page
+      title="Image alt text"
+      subtitle="Describe product images for screen readers and image search"
+      primaryAction={{
+        content: changedCount > 0 ? `Save ${changedCount} change${changedCount === 1 ? "" : "s"}` : "Save",
+        onAction: handleSave,
+        disabled: changedCount === 0 || tooLong || isSaving,
+        loading: isSaving,
+      }}
+      secondaryActions={[
+        { content: "Choose products", onAction: handlePick },
+        {
+          content: "Generate for all",
+          onAction: () => generate(products.map((p) => p.id)),
+          disabled: products.length === 0 || isGenerating,
+        },
+      ]}
+    >
+      <Layout>
+        {errorMessage && (
+          <Layout.Section>
+            <Banner tone="critical" title="Something went wrong" onDismiss={() => setErrorMessage(null)}>
+              <p>{errorMessage}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {products.length === 0 ? (
+          <Layout.Section>
+            <Card>
+              <EmptyState
+                heading="Choose products to describe"
+                action={{ content: "Choose products", onAction: handlePick }}
+                image=""
+              >
+                <p>Pick up to {MAX_PRODUCTS} products. Generated alt text is a draft until you save it.</p>
+              </EmptyState>
+            </Card>
+          </Layout.Section>
+        ) : (
+          products.map((product) => (
+            <Layout.Section key={product.id}>
+              <Card>
+                <BlockStack gap="400">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <Text as="h2" variant="headingMd">{product.title}</Text>
+                    <Button
+                      onClick={() => generate([product.id])}
+                      disabled={product.images.length === 0 || isGenerating}
+                      loading={isGenerating && generatingIds.includes(product.id)}
+                    >
+                      Generate
+                    </Button>
+                  </InlineStack>
+
+                  {productErrors[product.id] && (
+                    <Banner tone="critical">{productErrors[product.id]}</Banner>
+                  )}
+
+                  {product.images.length === 0 ? (
+                    <Text as="p" tone="subdued">This product has no images.</Text>
+                  ) : (
+                    product.images.map((image) => {
+                      const value = valueOf(image);
+                      return (
+                        <InlineStack key={image.id} gap="400" blockAlign="start" wrap={false}>
+                          <Thumbnail source={image.url} alt={value} size="large" />
+                          <div style={{ flex: 1 }}>
+                            <TextField
+                              label="Alt text"
+                              value={value}
+                              onChange={(alt) => setDrafts((current) => ({ ...current, [image.id]: alt }))}
+                              multiline={2}
+                              helpText={`${value.trim().length}/${ALT_TEXT_LIMIT}${value.trim() !== image.alt ? " · unsaved" : ""}`}
+                              error={value.trim().length > ALT_TEXT_LIMIT ? `Keep it under ${ALT_TEXT_LIMIT} characters` : undefined}
+                              autoComplete="off"
+                            />
+                          </div>
+                        </InlineStack>
+                      );
+                    })
+                  )}
+                </BlockStack>
+              </Card>
+            </Layout.Section>
+          ))
+        )}
+      </Layout>
+    </Page>
+  );
+}
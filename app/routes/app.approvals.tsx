@@ -0,0 +1,266 @@
+import { useState } from "react";
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData, useSearchParams } from "@remix-run/react";
+import {
+  Page,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Banner,
+  Button,
+  EmptyState,
+  Box,
+  Divider,
+  Tabs,
+  TextField,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  isOwnDraft,
+  listDrafts,
+  reviewDraft,
+  staffFromSession,
+  type Draft,
+  type DraftAction,
+  type DraftStatus,
+} from "../services/reviews.server";
+
+const TABS: { id: DraftStatus; content: string }[] = [
+  { id: "pending", content: "Pending" },
+  { id: "approved", content: "Approved" },
+  { id: "rejected", content: "Rejected" },
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const status = TABS.find((tab) => tab.id === url.searchParams.get("status"))?.id ?? "pending";
+
+  const staff = staffFromSession(session);
+  const drafts = (await listDrafts(session.shop, status)).map((draft) => ({
+    ...draft,
+    ownDraft: isOwnDraft(draft, staff),
+  }));
+  return json({ drafts, status });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+  const id = String(formData.get("id") || "");
+  const comment = String(formData.get("comment") || "").trim();
+
+  if (action === "approve" || action === "reject") {
+    if (action === "reject" && !comment) {
+      return json({ success: false, message: "Add a comment explaining the rejection" }, { status: 400 });
+    }
+    const result = await reviewDraft(
+      session.shop,
+      id,
+      staffFromSession(session),
+      action === "approve" ? "approved" : "rejected",
+      comment
+    );
+    if (!result.reviewed && result.reason === "own_draft") {
+      return json(
+        { success: false, message: "You submitted this draft, so someone else has to approve it" },
+        { status: 403 }
+      );
+    }
+    if (!result.reviewed) {
+      return json({ success: false, message: "This draft can no longer be reviewed" }, { status: 409 });
+    }
+    return json({ success: true, message: action === "approve" ? "Draft approved" : "Draft rejected" });
+  }
+
+  return json({ success: false, message: "Invalid action" }, { status: 400 });
+}
+
+const actionLabel: Record<DraftAction, string> = {
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  published: "Published",
+};
+
+const actionTone: Partial<Record<DraftAction, "success" | "info" | "critical">> = {
+  approved: "success",
+  rejected: "critical",
+  published: "info",
+};
+
+export default function ApprovalsPage() {
+  const { drafts, status } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success: boolean; message: string }>();
+  // Publishing uses the save action in app.generate.ts, which re-checks the approval
+  const publishFetcher = useFetcher<{ status: string; message: string }>();
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [, setSearchParams] = useSearchParams();
+
+  const busyId = (f: typeof fetcher | typeof publishFetcher) =>
+    f.state !== "idle" ? String(f.formData?.get("id") ?? f.formData?.get("draftId") ?? "") : null;
+
+  const review = (draft: Draft, action: "approve" | "reject") => {
+    fetcher.submit({ action, id: draft.id, comment: comments[draft.id] ?? "" }, { method: "post" });
+    setComments((existing) => ({ ...existing, [draft.id]: "" }));
+  };
+
+  const publish = (draft: Draft) => {
+    if (confirm(`Publish this description to ${draft.productTitle}?`)) {
+      publishFetcher.submit(
+        { actionType: "save", draftId: draft.id },
+        { method: "post", action: "/app/generate" }
+      );
+    }
+  };
+
+  return (
+    <Page title="Approvals" subtitle="Review generated descriptions before they reach the storefront">
+      <BlockStack gap="400">
+        {fetcher.state === "idle" && fetcher.data && (
+          <Banner tone={fetcher.data.success ? "success" : "critical"}>
+            <p>{fetcher.data.message}</p>
+          </Banner>
+        )}
+        {publishFetcher.state === "idle" && publishFetcher.data && (
+          <Banner tone={publishFetcher.data.status === "saved" ? "success" : "critical"}>
+            <p>{publishFetcher.data.message}</p>
+          </Banner>
+        )}
+
+        <Tabs
+          tabs={TABS}
+          selected={TABS.findIndex((tab) => tab.id === status)}
+          onSelect={(index) => setSearchParams({ status: TABS[index].id })}
+        />
+
+        {drafts.length === 0 ? (
+          <Card>
+            <EmptyState
+              heading={status === "pending" ? "Nothing waiting for review" : `No ${status} drafts`}
+              image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+            >
+              <Text as="p">Drafts submitted from the Dashboard appear here.</Text>
+            </EmptyState>
+          </Card>
+        ) : (
+          drafts.map((draft) => (
+            <Card key={draft.id}>
+              <BlockStack gap="400">
+                <InlineStack align="space-between" blockAlign="start">
+                  <BlockStack gap="200">
+                    <Text as="h3" variant="headingMd" fontWeight="semibold">
+                      {draft.productTitle}
+                    </Text>
+                    <InlineStack gap="200">
+                      {draft.publishedAt && <Badge tone="info">Published</Badge>}
+                      {draft.seo && <Badge>SEO fields</Badge>}
+                      {draft.translations.length > 0 && (
+                        <Badge>{`${draft.translations.length} translation${draft.translations.length === 1 ? "" : "s"}`}</Badge>
+                      )}
+                    </InlineStack>
+                  </BlockStack>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Product ID: {draft.productId.split("/").pop()}
+                  </Text>
+                </InlineStack>
+
+                <Divider />
+
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <div dangerouslySetInnerHTML={{ __html: draft.descriptionHtml }} />
+                </Box>
+
+                {draft.seo && (
+                  <BlockStack gap="100">
+                    <Text as="p" fontWeight="semibold">{draft.seo.title}</Text>
+                    <Text as="p" variant="bodySm" tone="subdued">{draft.seo.description}</Text>
+                  </BlockStack>
+                )}
+
+                {draft.translations.map((translation) => (
+                  <BlockStack key={translation.locale} gap="100">
+                    <Text as="p" variant="bodySm" fontWeight="semibold">
+                      {translation.locale.toUpperCase()}
+                    </Text>
+                    <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                      <div dangerouslySetInnerHTML={{ __html: translation.descriptionHtml }} />
+                    </Box>
+                  </BlockStack>
+                ))}
+
+                <BlockStack gap="200">
+                  {draft.events.map((event) => (
+                    <InlineStack key={event.id} gap="200" blockAlign="center">
+                      <Badge tone={actionTone[event.action]}>{actionLabel[event.action]}</Badge>
+                      <Text as="span" variant="bodySm">
+                        {event.actorName}
+                        {event.actorEmail && event.actorEmail !== event.actorName ? ` (${event.actorEmail})` : ""}
+                      </Text>
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </Text>
+                      {event.comment && <Text as="span" variant="bodySm">“{event.comment}”</Text>}
+                    </InlineStack>
+                  ))}
+                </BlockStack>
+
+                {!draft.publishedAt && (
+                  <>
+                    <Divider />
+                    <TextField
+                      label="Comment"
+                      value={comments[draft.id] ?? ""}
+                      onChange={(value) => setComments((existing) => ({ ...existing, [draft.id]: value }))}
+                      helpText="Required when rejecting"
+                      multiline={2}
+                      autoComplete="off"
+                    />
+                    <InlineStack align="end" gap="200">
+                      {draft.status !== "rejected" && (
+                        <Button
+                          tone="critical"
+                          onClick={() => review(draft, "reject")}
+                          disabled={!(comments[draft.id] ?? "").trim()}
+                          loading={busyId(fetcher) === draft.id}
+                        >
+                          Reject
+                        </Button>
+                      )}
+                      {draft.status !== "approved" && draft.ownDraft && (
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          You submitted this draft, so someone else has to approve it
+                        </Text>
+                      )}
+                      {draft.status !== "approved" && !draft.ownDraft && (
+                        <Button onClick={() => review(draft, "approve")} loading={busyId(fetcher) === draft.id}>
+                          Approve
+                        </Button>
+                      )}
+                      {draft.status === "approved" && (
+                        <Button
+                          variant="primary"
+                          onClick={() => publish(draft)}
+                          loading={busyId(publishFetcher) === draft.id}
+                        >
+                          Publish to product
+                        </Button>
+                      )}
+                    </InlineStack>
+                  </>
+                )}
+              </BlockStack>
+            </Card>
+          ))
+        )}
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useState } from "react";
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Badge,
+  Banner,
+  Button,
+  Checkbox,
+  Select,
+  TextField,
+  EmptyState,
+  DataTable,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  createRule,
+  deleteRule,
+  listRules,
+  parseRuleForm,
+  setRuleEnabled,
+  updateRule,
+  type AutomationRule,
+  type AutomationRunStatus,
+  type AutomationTrigger,
+} from "../services/automation.server";
+import { listCollections } from "../services/products.server";
+import { listVoices } from "../services/voices.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+  const [rules, voices, collections] = await Promise.all([
+    listRules(session.shop),
+    listVoices(session.shop),
+    listCollections(admin),
+  ]);
+  return json({
+    rules,
+    voices: voices.map((v) => ({ id: v.id, name: v.name })),
+    collections,
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+  const id = String(formData.get("id") || "");
+
+  if (action === "saveRule") {
+    const input = parseRuleForm(formData);
+    if (!input.name || !input.voiceId) {
+      return json({ success: false, message: "A rule needs a name and a voice" }, { status: 400 });
+    }
+    if (id) {
+      await updateRule(session.shop, id, input);
+    } else {
+      await createRule(session.shop, input);
+    }
+    return json({ success: true, message: "Rule saved" });
+  }
+
+  if (action === "toggleRule") {
+    await setRuleEnabled(session.shop, id, formData.get("enabled") === "true");
+    return json({ success: true, message: "Rule updated" });
+  }
+
+  if (action === "deleteRule") {
+    await deleteRule(session.shop, id);
+    return json({ success: true, message: "Rule deleted" });
+  }
+
+  return json({ success: false, message: "Invalid action" }, { status: 400 });
+}
+
+type RuleFormState = {
+  id: string;
+  name: string;
+  trigger: AutomationTrigger;
+  collectionId: string;
+  onlyEmptyDescription: boolean;
+  voiceId: string;
+  format: string;
+  keywords: string;
+  publish: boolean;
+};
+
+const emptyForm: RuleFormState = {
+  id: "",
+  name: "",
+  trigger: "create",
+  collectionId: "",
+  onlyEmptyDescription: true,
+  voiceId: "",
+  format: "paragraph",
+  keywords: "",
+  publish: false,
+};
+
+function toForm(rule: AutomationRule): RuleFormState {
+  return {
+    id: rule.id,
+    name: rule.name,
+    trigger: rule.trigger,
+    collectionId: rule.collectionId ?? "",
+    onlyEmptyDescription: rule.onlyEmptyDescription,
+    voiceId: rule.voiceId,
+    format: rule.format,
+    keywords: rule.keywords ?? "",
+    publish: rule.publish,
+  };
+}
+
+const triggerLabel: Record<AutomationTrigger, string> = {
+  create: "Product created",
+  update: "Product updated",
+  both: "Product created or updated",
+};
+
+const statusTone: Partial<Record<AutomationRunStatus, "success" | "info" | "critical" | "attention">> = {
+  submitted: "success",
+  published: "success",
+  drafted: "info",
+  failed: "critical",
+  running: "attention",
+};
+
+export default function AutomationsPage() {
+  const { rules, voices, collections } = useLoaderData<typeof loader>();
+  const saveFetcher = useFetcher<{ success: boolean; message: string }>();
+  const fetcher = useFetcher<{ success: boolean; message: string }>();
+  const [form, setForm] = useState<RuleFormState>({ ...emptyForm, voiceId: voices[0]?.id ?? "" });
+
+  const isSaving = saveFetcher.state !== "idle";
+  const update = <K extends keyof RuleFormState>(field: K) => (value: RuleFormState[K]) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  // Reset the editor once a save lands
+  useEffect(() => {
+    if (saveFetcher.state === "idle" && saveFetcher.data?.success) {
+      setForm({ ...emptyForm, voiceId: voices[0]?.id ?? "" });
+    }
+  }, [saveFetcher.state, saveFetcher.data, voices]);
+
+  const handleSave = () => {
+    saveFetcher.submit(
+      {
+        action: "saveRule",
+        ...form,
+        collectionTitle: collections.find((c) => c.id === form.collectionId)?.title ?? "",
+        onlyEmptyDescription: String(form.onlyEmptyDescription),
+        publish: String(form.publish),
+      },
+      { method: "post" }
+    );
+  };
+
+  const handleToggle = (rule: AutomationRule) => {
+    fetcher.submit({ action: "toggleRule", id: rule.id, enabled: String(!rule.enabled) }, { method: "post" });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this rule and its run log?")) {
+      fetcher.submit({ action: "deleteRule", id }, { method: "post" });
+    }
+  };
+
+  const voiceName = (id: string) => voices.find((v) => v.id === id)?.name ?? id;
+
+  return (
+    <Page title="Automations" subtitle="Write descriptions for new or changed products automatically">
+      <Layout>
+        <Layout.AnnotatedSection
+          title="Rules"
+          description="Rules run when Shopify reports a product was created or updated. Each run counts as one generation. A rule runs at most once per product per hour, and saves made by this app never trigger rules."
+        >
+          <BlockStack gap="400">
+            {[saveFetcher, fetcher].map((f, i) =>
+              f.state === "idle" && f.data && !f.data.success ? (
+                <Banner key={i} tone="critical">
+                  <p>{f.data.message}</p>
+                </Banner>
+              ) : null
+            )}
+
+            <Card>
+              <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">{form.id ? "Edit rule" : "New rule"}</Text>
+                <TextField label="Name" value={form.name} onChange={update("name")} autoComplete="off" />
+                <InlineGrid columns={2} gap="400">
+                  <Select
+                    label="When"
+                    options={(Object.keys(triggerLabel) as AutomationTrigger[]).map((value) => ({
+                      label: triggerLabel[value],
+                      value,
+                    }))}
+                    value={form.trigger}
+                    onChange={(value) => update("trigger")(value as AutomationTrigger)}
+                  />
+                  <Select
+                    label="In collection"
+                    options={[{ label: "Any collection", value: "" }, ...collections.map((c) => ({ label: c.title, value: c.id }))]}
+                    value={form.collectionId}
+                    onChange={update("collectionId")}
+                  />
+                  <Select
+                    label="Voice"
+                    options={voices.map((v) => ({ label: v.name, value: v.id }))}
+                    value={form.voiceId}
+                    onChange={update("voiceId")}
+                  />
+                  <Select
+                    label="Format"
+                    options={[
+                      { label: "Paragraph", value: "paragraph" },
+                      { label: "Bullet Points", value: "bullets" },
+                    ]}
+                    value={form.format}
+                    onChange={update("format")}
+                  />
+                </InlineGrid>
+                <TextField
+                  label="SEO keywords"
+                  value={form.keywords}
+                  onChange={update("keywords")}
+                  autoComplete="off"
+                />
+                <Checkbox
+                  label="Only products without a description"
+                  checked={form.onlyEmptyDescription}
+                  onChange={update("onlyEmptyDescription")}
+                />
+                <Checkbox
+                  label="Submit for review automatically"
+                  helpText="Approved drafts are published from Approvals. Otherwise the description is only saved to History"
+                  checked={form.publish}
+                  onChange={update("publish")}
+                />
+                <InlineStack align="end" gap="200">
+                  {form.id && (
+                    <Button onClick={() => setForm({ ...emptyForm, voiceId: voices[0]?.id ?? "" })}>Cancel</Button>
+                  )}
+                  <Button variant="primary" onClick={handleSave} loading={isSaving}>
+                    Save rule
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+
+            {rules.length === 0 ? (
+              <Card>
+                <EmptyState
+                  heading="No rules yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <Text as="p">Create a rule above, e.g. “new products in Summer with no description”.</Text>
+                </EmptyState>
+              </Card>
+            ) : (
+              rules.map((rule) => (
+                <Card key={rule.id}>
+                  <BlockStack gap="300">
+                    <InlineStack align="space-between" blockAlign="center">
+                      <InlineStack gap="200" blockAlign="center">
+                        <Text as="h3" variant="headingSm">{rule.name}</Text>
+                        <Badge tone={rule.enabled ? "success" : undefined}>{rule.enabled ? "On" : "Off"}</Badge>
+                      </InlineStack>
+                      <InlineStack gap="200">
+                        <Button variant="plain" onClick={() => handleToggle(rule)}>
+                          {rule.enabled ? "Turn off" : "Turn on"}
+                        </Button>
+                        <Button variant="plain" onClick={() => setForm(toForm(rule))}>Edit</Button>
+                        <Button variant="plain" tone="critical" onClick={() => handleDelete(rule.id)}>
+                          Delete
+                        </Button>
+                      </InlineStack>
+                    </InlineStack>
+
+                    <InlineStack gap="200">
+                      <Badge>{triggerLabel[rule.trigger]}</Badge>
+                      {rule.collectionTitle && <Badge>{`In ${rule.collectionTitle}`}</Badge>}
+                      {rule.onlyEmptyDescription && <Badge>No description</Badge>}
+                      <Badge tone="info">{voiceName(rule.voiceId)}</Badge>
+                      <Badge tone={rule.publish ? "attention" : undefined}>
+                        {rule.publish ? "Submits for review" : "History only"}
+                      </Badge>
+                    </InlineStack>
+
+                    {rule.runs.length === 0 ? (
+                      <Text as="p" tone="subdued">No runs yet.</Text>
+                    ) : (
+                      <DataTable
+                        columnContentTypes={["text", "text", "text", "text"]}
+                        headings={["Product", "Trigger", "Result", "When"]}
+                        rows={rule.runs.map((run) => [
+                          run.productTitle,
+                          run.trigger,
+                          <BlockStack key={run.id} gap="100">
+                            <Badge tone={statusTone[run.status]}>{run.status}</Badge>
+                            {run.message && <Text as="span" variant="bodySm" tone="subdued">{run.message}</Text>}
+                          </BlockStack>,
+                          new Date(run.createdAt).toLocaleString(),
+                        ])}
+                      />
+                    )}
+                  </BlockStack>
+                </Card>
+              ))
+            )}
+          </BlockStack>
+        </Layout.AnnotatedSection>
+      </Layout>
+    </Page>
+  );
+}
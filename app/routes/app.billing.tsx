@@ -0,0 +1,205 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Badge,
+  Banner,
+  Button,
+  ProgressBar,
+  List,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { deepseek } from "../services/deepseek.server";
+import {
+  BILLING_IS_TEST,
+  CREDIT_PACKS,
+  PLANS,
+  setShopPlan,
+  syncBilling,
+  type PlanId,
+} from "../services/billing.server";
+
+// Confirmation pages send the merchant back here inside the admin
+const returnUrl = (shop: string, path: string) =>
+  `https://admin.shopify.com/store/${shop.replace(".myshopify.com", "")}/apps/${process.env.SHOPIFY_API_KEY}${path}`;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, billing } = await authenticate.admin(request);
+  const allowance = await syncBilling(session.shop, billing);
+  const { used } = await deepseek.checkMonthlyLimit(session.shop);
+
+  return json({
+    plans: Object.values(PLANS),
+    packs: CREDIT_PACKS,
+    current: allowance.plan.id,
+    credits: allowance.credits,
+    limit: allowance.limit,
+    used,
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, billing } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+
+  if (action === "subscribe") {
+    const plan = PLANS[String(formData.get("plan")) as PlanId];
+    if (!plan || plan.id === "free") {
+      return json({ success: false, message: "Unknown plan" }, { status: 400 });
+    }
+    // Throws a redirect to the charge confirmation page
+    return billing.request({
+      plan: plan.name,
+      isTest: BILLING_IS_TEST,
+      returnUrl: returnUrl(session.shop, "/app/billing"),
+    });
+  }
+
+  if (action === "downgrade") {
+    const { appSubscriptions } = await billing.check({ isTest: BILLING_IS_TEST });
+    for (const subscription of appSubscriptions) {
+      await billing.cancel({ subscriptionId: subscription.id, isTest: BILLING_IS_TEST, prorate: true });
+    }
+    await setShopPlan(session.shop, "free");
+    return json({ success: true, message: "Switched to the Free plan" });
+  }
+
+  if (action === "buyCredits") {
+    const pack = CREDIT_PACKS.find((p) => p.id === formData.get("pack"));
+    if (!pack) {
+      return json({ success: false, message: "Unknown credit pack" }, { status: 400 });
+    }
+    return billing.request({
+      plan: pack.name,
+      isTest: BILLING_IS_TEST,
+      returnUrl: returnUrl(session.shop, "/app/billing"),
+    });
+  }
+
+  return json({ success: false, message: "Invalid action" }, { status: 400 });
+}
+
+export default function BillingPage() {
+  const { plans, packs, current, credits, limit, used } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const busy = navigation.state === "submitting";
+  // "<action>:<plan or pack id>" of the in-flight submission, for button spinners
+  const pendingKey = busy
+    ? `${navigation.formData?.get("action")}:${navigation.formData?.get("plan") ?? navigation.formData?.get("pack") ?? ""}`
+    : null;
+  const percent = limit > 0 ? Math.min(100, Math.round((used / limit) * 100)) : 100;
+
+  return (
+    <Page title="Billing" subtitle="Choose a plan or top up this month's generations">
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>{actionData.message}</Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">This month</Text>
+                <Text as="span" tone="subdued">
+                  {used} / {limit} generations
+                </Text>
+              </InlineStack>
+              <ProgressBar progress={percent} tone={percent >= 90 ? "critical" : "primary"} />
+              {credits > 0 && (
+                <Text as="p" tone="subdued">
+                  Includes {credits} top-up credits bought this month.
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+            {plans.map((plan) => {
+              const isCurrent = plan.id === current;
+              return (
+                <Card key={plan.id}>
+                  <BlockStack gap="300">
+                    <InlineStack align="space-between">
+                      <Text as="h3" variant="headingMd">{plan.name}</Text>
+                      {isCurrent && <Badge tone="success">Current plan</Badge>}
+                    </InlineStack>
+                    <Text as="p" variant="headingLg">
+                      {plan.price === 0 ? "Free" : `$${plan.price} / month`}
+                    </Text>
+                    <Text as="p" tone="subdued">
+                      {plan.monthlyLimit.toLocaleString()} generations per month
+                    </Text>
+                    <List>
+                      {plan.features.map((feature) => (
+                        <List.Item key={feature}>{feature}</List.Item>
+                      ))}
+                    </List>
+                    {!isCurrent && (
+                      <Button
+                        variant={plan.id === "free" ? "secondary" : "primary"}
+                        loading={pendingKey === (plan.id === "free" ? "downgrade:" : `subscribe:${plan.id}`)}
+                        disabled={busy}
+                        onClick={() =>
+                          submit(
+                            plan.id === "free" ? { action: "downgrade" } : { action: "subscribe", plan: plan.id },
+                            { method: "post" }
+                          )
+                        }
+                      >
+                        {plan.id === "free" ? "Downgrade to Free" : `Switch to ${plan.name}`}
+                      </Button>
+                    )}
+                  </BlockStack>
+                </Card>
+              );
+            })}
+          </InlineGrid>
+        </Layout.Section>
+
+        <Layout.AnnotatedSection
+          title="Top-up credits"
+          description="One-time packs that add to this month's allowance on any plan. Unused credits do not roll over."
+        >
+          <Card>
+            <BlockStack gap="300">
+              {packs.map((pack) => (
+                <InlineStack key={pack.id} align="space-between" blockAlign="center">
+                  <BlockStack gap="050">
+                    <Text as="span" fontWeight="semibold">{pack.name}</Text>
+                    <Text as="span" tone="subdued">${pack.price} one-time</Text>
+                  </BlockStack>
+                  <Button
+                    loading={pendingKey === `buyCredits:${pack.id}`}
+                    disabled={busy}
+                    onClick={() => submit({ action: "buyCredits", pack: pack.id }, { method: "post" })}
+                  >
+                    Buy
+                  </Button>
+                </InlineStack>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect } from "react";
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData, useRevalidator } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Banner,
+  IndexTable,
+  ProgressBar,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  cancelBulkJob,
+  getBulkJob,
+  retryFailedItems,
+  type BulkItemStatus,
+  type BulkJobStatus,
+} from "../services/bulk.server";
+
+const jobTone: Record<BulkJobStatus, "info" | "success" | "warning" | "critical" | undefined> = {
+  queued: undefined,
+  running: "info",
+  paused: "warning",
+  completed: "success",
+  cancelled: "critical",
+};
+
+const itemTone: Record<BulkItemStatus, "info" | "success" | "critical" | undefined> = {
+  pending: undefined,
+  running: "info",
+  succeeded: "success",
+  failed: "critical",
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const job = await getBulkJob(session.shop, String(params.jobId));
+
+  if (!job) {
+    throw new Response("Bulk job not found", { status: 404 });
+  }
+
+  return json({ job });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+  const jobId = String(params.jobId);
+
+  if (action === "retryFailed") {
+    const retried = await retryFailedItems(session.shop, jobId);
+    return json({ success: true, retried });
+  }
+
+  if (action === "cancel") {
+    const cancelled = await cancelBulkJob(session.shop, jobId);
+    return json({ success: cancelled });
+  }
+
+  return json({ success: false }, { status: 400 });
+}
+
+export default function BulkJobPage() {
+  const { job } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher();
+  const revalidator = useRevalidator();
+
+  const done = job.succeeded + job.failed;
+  const isActive = job.status === "queued" || job.status === "running";
+  const failedItems = job.items.filter((item) => item.status === "failed");
+
+  // Poll while the worker is still going
+  useEffect(() => {
+    if (!isActive) return;
+    const id = setInterval(() => {
+      if (revalidator.state === "idle") revalidator.revalidate();
+    }, 3000);
+    return () => clearInterval(id);
+  }, [isActive, revalidator]);
+
+  const primaryAction =
+    failedItems.length > 0 || job.status === "paused"
+      ? {
+          content: job.status === "paused" ? "Resume" : "Retry failed",
+          loading: fetcher.state !== "idle",
+          onAction: () => fetcher.submit({ action: "retryFailed" }, { method: "post" }),
+        }
+      : undefined;
+
+  return (
+    <Page
+      title="Bulk job"
+      subtitle={new Date(job.createdAt).toLocaleString()}
+      backAction={{ content: "Bulk Generation", url: "/app/bulk" }}
+      titleMetadata={<Badge tone={jobTone[job.status]}>{job.status}</Badge>}
+      primaryAction={primaryAction}
+      secondaryActions={
+        isActive || job.status === "paused"
+          ? [
+              {
+                content: "Cancel job",
+                destructive: true,
+                onAction: () => fetcher.submit({ action: "cancel" }, { method: "post" }),
+              },
+            ]
+          : []
+      }
+    >
+      <Layout>
+        {job.error && (
+          <Layout.Section>
+            <Banner tone="warning" title="Job paused">
+              <p>{job.error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <ProgressBar progress={job.total ? (done / job.total) * 100 : 0} />
+              <InlineStack gap="400">
+                <Text as="p">{done}/{job.total} processed</Text>
+                <Text as="p" tone="success">{job.succeeded} succeeded</Text>
+                <Text as="p" tone="critical">{job.failed} failed</Text>
+              </InlineStack>
+              <Text as="p" variant="bodySm" tone="subdued">
+                {job.selector} · {job.vibe} · {job.format}
+                {job.publish ? " · submitting drafts for review" : " · saving to History only"}
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: "product", plural: "products" }}
+              itemCount={job.items.length}
+              selectable={false}
+              headings={[{ title: "Product" }, { title: "Status" }, { title: "Attempts" }, { title: "Error" }]}
+            >
+              {job.items.map((item, index) => (
+                <IndexTable.Row id={item.id} key={item.id} position={index}>
+                  <IndexTable.Cell>{item.productTitle}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Badge tone={itemTone[item.status]}>{item.status}</Badge>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>{item.attempts}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Text as="span" tone="critical">{item.error ?? ""}</Text>
+                  </IndexTable.Cell>
+                </IndexTable.Row>
+              ))}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
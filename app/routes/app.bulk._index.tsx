@@ -0,0 +1,291 @@
+import { useState } from "react";
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { Link, useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Badge,
+  Banner,
+  Button,
+  Select,
+  TextField,
+  Checkbox,
+  IndexTable,
+  ProgressBar,
+  EmptyState,
+} from "@shopify/polaris";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { createBulkJob, listBulkJobs, type BulkJobStatus } from "../services/bulk.server";
+import { staffFromSession } from "../services/reviews.server";
+import type { ProductSelector } from "../services/products.server";
+import { listVoices } from "../services/voices.server";
+
+const statusTone: Record<BulkJobStatus, "info" | "success" | "warning" | "critical" | undefined> = {
+  queued: undefined,
+  running: "info",
+  paused: "warning",
+  completed: "success",
+  cancelled: "critical",
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const [jobs, voices] = await Promise.all([
+    listBulkJobs(session.shop),
+    listVoices(session.shop),
+  ]);
+  // Products multi-selected on the Dashboard arrive preselected
+  const productIds = (new URL(request.url).searchParams.get("productIds") ?? "").split(",").filter(Boolean);
+  return json({ jobs, voices: voices.map((v) => ({ label: v.name, value: v.id })), productIds });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session, redirect } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  try {
+    const job = await createBulkJob(
+      admin,
+      session.shop,
+      {
+        selector: String(formData.get("selector") || "missing") as ProductSelector,
+        selectorValue: String(formData.get("selectorValue") || ""),
+        vibe: String(formData.get("vibe") || "edgy"),
+        format: String(formData.get("format") || "paragraph"),
+        keywords: String(formData.get("keywords") || ""),
+        includeSocials: formData.get("includeSocials") === "true",
+        publish: formData.get("publish") === "true",
+      },
+      staffFromSession(session)
+    );
+    return redirect(`/app/bulk/${job.id}`);
+  } catch (error) {
+    console.error("Bulk job error:", error);
+    return json(
+      {
+        status: "error",
+        message: error instanceof Error ? error.message : "Failed to start bulk job",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export default function BulkJobsPage() {
+  const { jobs, voices, productIds } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const [selector, setSelector] = useState<ProductSelector>(productIds.length > 0 ? "selection" : "missing");
+  const [selectorValue, setSelectorValue] = useState(productIds.join(","));
+  const [selectionLabel, setSelectionLabel] = useState(
+    productIds.length > 0 ? `${productIds.length} product${productIds.length === 1 ? "" : "s"} selected` : ""
+  );
+  const [vibe, setVibe] = useState("edgy");
+  const [format, setFormat] = useState("paragraph");
+  const [keywords, setKeywords] = useState("");
+  const [includeSocials, setIncludeSocials] = useState(false);
+  const [publish, setPublish] = useState(false);
+
+  const isStarting = navigation.state === "submitting";
+  const needsValue = selector !== "missing";
+
+  const handlePick = async () => {
+    const picked = await shopify.resourcePicker({
+      type: selector === "collection" ? "collection" : "product",
+      multiple: selector !== "collection",
+    });
+    if (!picked || picked.length === 0) return;
+    setSelectorValue(picked.map((r) => r.id).join(","));
+    setSelectionLabel(
+      picked.length === 1 ? String(picked[0].title) : `${picked.length} products selected`
+    );
+  };
+
+  const handleStart = () => {
+    submit(
+      {
+        selector,
+        selectorValue,
+        vibe,
+        format,
+        keywords,
+        includeSocials: String(includeSocials),
+        publish: String(publish),
+      },
+      { method: "post" }
+    );
+  };
+
+  return (
+    <Page title="Bulk Generation" subtitle="Generate descriptions for many products at once">
+      <Layout>
+        {actionData?.status === "error" && (
+          <Layout.Section>
+            <Banner tone="critical" title="Could not start job">
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">New job</Text>
+
+              <InlineGrid columns={2} gap="400">
+                <Select
+                  label="Products"
+                  options={[
+                    { label: "Missing a description", value: "missing" },
+                    { label: "Selected products", value: "selection" },
+                    { label: "Collection", value: "collection" },
+                    { label: "Tag", value: "tag" },
+                  ]}
+                  value={selector}
+                  onChange={(value) => {
+                    setSelector(value as ProductSelector);
+                    setSelectorValue("");
+                    setSelectionLabel("");
+                  }}
+                />
+
+                {selector === "tag" ? (
+                  <TextField
+                    label="Tag"
+                    value={selectorValue}
+                    onChange={setSelectorValue}
+                    autoComplete="off"
+                  />
+                ) : needsValue ? (
+                  <BlockStack gap="100">
+                    <Text as="p">{selector === "collection" ? "Collection" : "Products"}</Text>
+                    <InlineStack gap="200" blockAlign="center">
+                      <Button onClick={handlePick}>
+                        {selector === "collection" ? "Choose collection" : "Choose products"}
+                      </Button>
+                      {selectionLabel && <Text as="span" tone="subdued">{selectionLabel}</Text>}
+                    </InlineStack>
+                  </BlockStack>
+                ) : null}
+              </InlineGrid>
+
+              <InlineGrid columns={3} gap="400">
+                <Select
+                  label="Voice"
+                  options={voices}
+                  value={vibe}
+                  onChange={setVibe}
+                />
+                <Select
+                  label="Format"
+                  options={[
+                    { label: "Paragraph", value: "paragraph" },
+                    { label: "Bullet Points", value: "bullets" },
+                  ]}
+                  value={format}
+                  onChange={setFormat}
+                />
+                <TextField
+                  label="SEO Keywords"
+                  value={keywords}
+                  onChange={setKeywords}
+                  autoComplete="off"
+                />
+              </InlineGrid>
+
+              <InlineStack gap="400">
+                <Checkbox
+                  label="Generate Social Media Posts"
+                  checked={includeSocials}
+                  onChange={setIncludeSocials}
+                />
+                <Checkbox
+                  label="Submit for review automatically"
+                  helpText="Approved drafts are published from Approvals. Otherwise results are only saved to History."
+                  checked={publish}
+                  onChange={setPublish}
+                />
+              </InlineStack>
+
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  onClick={handleStart}
+                  loading={isStarting}
+                  disabled={needsValue && !selectorValue}
+                >
+                  Start job
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            {jobs.length === 0 ? (
+              <EmptyState
+                heading="No bulk jobs yet"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <Text as="p">Jobs you start will show their progress here.</Text>
+              </EmptyState>
+            ) : (
+              <IndexTable
+                resourceName={{ singular: "job", plural: "jobs" }}
+                itemCount={jobs.length}
+                selectable={false}
+                headings={[
+                  { title: "Started" },
+                  { title: "Selection" },
+                  { title: "Status" },
+                  { title: "Progress" },
+                  { title: "Failed" },
+                ]}
+              >
+                {jobs.map((job, index) => {
+                  const done = job.succeeded + job.failed;
+                  return (
+                    <IndexTable.Row id={job.id} key={job.id} position={index}>
+                      <IndexTable.Cell>
+                        <Link to={`/app/bulk/${job.id}`}>
+                          {new Date(job.createdAt).toLocaleString()}
+                        </Link>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{job.selector}</IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Badge tone={statusTone[job.status]}>{job.status}</Badge>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <BlockStack gap="100">
+                          <ProgressBar progress={job.total ? (done / job.total) * 100 : 0} size="small" />
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {done}/{job.total}
+                          </Text>
+                        </BlockStack>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{job.failed}</IndexTable.Cell>
+                    </IndexTable.Row>
+                  );
+                })}
+              </IndexTable>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -1,48 +1,50 @@
 // app/routes/generate.ts
-import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { randomUUID } from "crypto";
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
-import { deepseek } from "../services/deepseek.server";
-import { addHistoryEntry } from "../services/history.server";
+import { AIValidationError, CANDIDATE_STYLES, deepseek } from "../services/deepseek.server";
+import { addHistoryEntry, getHistoryEntry } from "../services/history.server";
+import { addRefinement, listRefinements, MAX_INSTRUCTION_LENGTH } from "../services/refinements.server";
+import { fetchProductDescription, fetchProductForGeneration } from "../services/products.server";
+import { getDraft, publishDraft, staffFromSession, submitDraft } from "../services/reviews.server";
+import { resolveVoice } from "../services/voices.server";
+import { getPublishedLocales } from "../services/translations.server";
+import { sanitizeHTML, sanitizeWithReport } from "../utils/sanitize.server";
+import { SEO_DESCRIPTION_LIMIT, SEO_TITLE_LIMIT } from "../utils/seo";
+
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/\d+$/;
+
+// The saved refinement thread of one draft, for the Dashboard when it opens that draft
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const historyId = new URL(request.url).searchParams.get("historyId") ?? "";
+  if (!historyId) {
+    return json({ status: "error", message: "historyId is required" }, { status: 400 });
+  }
+  return json({ status: "success", data: { historyId, turns: await listRefinements(session.shop, historyId) } });
+}
 
 export async function action({ request }: ActionFunctionArgs) {
-  const { admin, shop } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
+  const { shop } = session;
   const formData = await request.formData();
   const actionType = formData.get("actionType");
 
   if (actionType === "generate") {
     try {
       const productId = String(formData.get("productId"));
-      const vibe = String(formData.get("vibe") || "edgy");
+      // "vibe" is still accepted from older clients; it maps onto the built-in voice ids
+      const voiceId = String(formData.get("voiceId") || formData.get("vibe") || "");
       const format = String(formData.get("format") || "paragraph");
       const keywords = String(formData.get("keywords") || "");
       const includeSocials = formData.get("includeSocials") === "true";
+      const bypassCache = formData.get("bypassCache") === "true";
+      const count = Math.min(Math.max(parseInt(String(formData.get("candidates") || "1"), 10) || 1, 1), CANDIDATE_STYLES.length);
+      // 0 (the default) never regenerates on score
+      const minScore = Math.min(Math.max(parseInt(String(formData.get("minScore") || "0"), 10) || 0, 0), 100);
 
       // Fetch product details with metafields
-      const response = await admin.graphql(
-        `#graphql
-          query GetProduct($id: ID!) {
-            product(id: $id) {
-              id
-              title
-              description
-              descriptionHtml
-              metafields(first: 50) {
-                edges {
-                  node {
-                    key
-                    value
-                    namespace
-                  }
-                }
-              }
-            }
-          }
-        `,
-        { variables: { id: productId } }
-      );
-
-      const data = await response.json();
-      const product = data.data?.product;
+      const product = await fetchProductForGeneration(admin, productId);
 
       if (!product) {
         return json(
@@ -51,37 +53,75 @@ export async function action({ request }: ActionFunctionArgs) {
         );
       }
 
-      // Generate content using DeepSeek AI
-      const result = await deepseek.generateDescription({
+      const voice = await resolveVoice(shop, voiceId);
+
+      // Generate content using DeepSeek AI, one call per candidate style
+      const results = await deepseek.generateCandidates({
         product,
-        vibe,
+        voice,
         format,
         keywords,
         includeSocials,
         shop,
+        count,
+        bypassCache,
+        minScore,
       });
 
-      // Save to history
-      await addHistoryEntry({
-        productId: product.id,
-        productTitle: product.title,
-        description: result.description,
-        vibe,
-        format,
-        keywords,
-        includeSocials,
-        socials: result.socials || undefined,
-      });
+      // Every candidate goes to history; saving marks the chosen one(s)
+      const candidateGroup = randomUUID();
+      const candidates = [];
+      for (const result of results) {
+        const entry = await addHistoryEntry(shop, {
+          productId: product.id,
+          productTitle: product.title,
+          description: result.description,
+          vibe: voice.name,
+          voiceId: voice.id,
+          format,
+          keywords,
+          includeSocials,
+          socials: result.socials || undefined,
+          seo: result.seo || undefined,
+          candidateGroup,
+          candidateStyle: result.style.id,
+          guardrail: result.guardrail,
+        });
+        candidates.push({
+          historyId: entry.id,
+          style: result.style.label,
+          description: result.description,
+          socials: result.socials,
+          guardrail: result.guardrail ?? null,
+          score: result.score ?? null,
+          seo: result.seo,
+        });
+      }
 
+      const [first] = candidates;
       return json({
         status: "success",
         data: {
-          description: result.description,
-          socials: result.socials,
+          description: first.description,
+          socials: first.socials,
+          seo: first.seo,
+          candidates,
+          candidateGroup,
+          // Live description, for the comparison view
+          currentDescription: sanitizeHTML(product.descriptionHtml ?? ""),
         },
       });
     } catch (error) {
       console.error("Generation error:", error);
+      if (error instanceof AIValidationError) {
+        return json(
+          {
+            status: "error",
+            message: "The AI returned a response in the wrong format, even after retrying. Try again or switch voice.",
+          },
+          { status: 422 }
+        );
+      }
       return json(
         {
           status: "error",
@@ -92,38 +132,157 @@ export async function action({ request }: ActionFunctionArgs) {
     }
   }
 
-  if (actionType === "save") {
+  if (actionType === "refine") {
     try {
-      const productId = String(formData.get("productId"));
-      const descriptionHtml = String(formData.get("descriptionHtml"));
-
-      const response = await admin.graphql(
-        `#graphql
-          mutation UpdateProduct($input: ProductInput!) {
-            productUpdate(input: $input) {
-              product {
-                id
-                descriptionHtml
-              }
-              userErrors {
-                field
-                message
-              }
-            }
-          }
-        `,
-        {
-          variables: {
-            input: {
-              id: productId,
-              descriptionHtml: descriptionHtml,
-            },
+      const historyId = String(formData.get("historyId") || "");
+      const instruction = String(formData.get("instruction") || "").trim();
+      if (!instruction || instruction.length > MAX_INSTRUCTION_LENGTH) {
+        return json(
+          { status: "error", message: `Enter an instruction of at most ${MAX_INSTRUCTION_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+
+      // The draft's own settings, so the thread stays consistent whatever the form now says
+      const draft = await getHistoryEntry(shop, historyId);
+      const product = draft && (await fetchProductForGeneration(admin, draft.productId));
+      if (!draft || !product) {
+        return json({ status: "error", message: "Draft not found" }, { status: 404 });
+      }
+
+      // Refine what the editor holds, which may be an edited or restored version
+      const seoTitle = formData.get("seoTitle");
+      const previous = {
+        description: sanitizeHTML(String(formData.get("descriptionHtml") || draft.description)),
+        socials: draft.includeSocials ? (draft.socials ?? null) : null,
+        seo: seoTitle !== null ? { title: String(seoTitle), description: String(formData.get("seoDescription") ?? "") } : draft.seo,
+      };
+
+      const voice = await resolveVoice(shop, draft.voiceId ?? draft.vibe);
+      const result = await deepseek.refineDescription({
+        product,
+        voice,
+        format: draft.format,
+        keywords: draft.keywords ?? "",
+        includeSocials: draft.includeSocials,
+        previous,
+        instruction,
+        shop,
+      });
+
+      await addRefinement(shop, {
+        historyId,
+        instruction,
+        description: result.description,
+        socials: result.socials || undefined,
+        seo: result.seo || undefined,
+      });
+
+      return json({ status: "success", data: { historyId, turns: await listRefinements(shop, historyId) } });
+    } catch (error) {
+      console.error("Refine error:", error);
+      if (error instanceof AIValidationError) {
+        return json(
+          { status: "error", message: "The AI returned a response in the wrong format, even after retrying. Try rephrasing." },
+          { status: 422 }
+        );
+      }
+      return json(
+        { status: "error", message: error instanceof Error ? error.message : "Failed to refine content" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (actionType === "submit") {
+    try {
+      const productId = String(formData.get("productId") || "");
+      // The editor's HTML is untrusted; enforce the same policy as AI output
+      const { html: descriptionHtml, removed } = sanitizeWithReport(String(formData.get("descriptionHtml") || ""));
+      const seoTitle = formData.get("seoTitle");
+      const seoDescription = formData.get("seoDescription");
+      const seo =
+        seoTitle !== null || seoDescription !== null
+          ? { title: String(seoTitle ?? "").trim(), description: String(seoDescription ?? "").trim() }
+          : null;
+
+      if (seo && (seo.title.length > SEO_TITLE_LIMIT || seo.description.length > SEO_DESCRIPTION_LIMIT)) {
+        return json(
+          {
+            status: "error",
+            message: `SEO title must be at most ${SEO_TITLE_LIMIT} characters and meta description at most ${SEO_DESCRIPTION_LIMIT}`,
           },
-        }
+          { status: 400 }
+        );
+      }
+
+      // The admin client is scoped to this shop, so this also rejects other shops' products
+      const product = PRODUCT_GID.test(productId) ? await fetchProductDescription(admin, productId) : null;
+      if (!product) {
+        return json({ status: "error", message: "Product not found" }, { status: 404 });
+      }
+
+      // Translations are reviewed with the draft; only published secondary locales are kept
+      let requested: { locale?: unknown; description?: unknown }[] = [];
+      try {
+        const parsed = JSON.parse(String(formData.get("translations") || "[]"));
+        if (Array.isArray(parsed)) requested = parsed;
+      } catch {
+        return json({ status: "error", message: "Invalid translations" }, { status: 400 });
+      }
+      const shopLocales = requested.length ? await getPublishedLocales(admin) : [];
+      const translations = requested
+        .filter(
+          (t): t is { locale: string; description: string } =>
+            typeof t.locale === "string" &&
+            typeof t.description === "string" &&
+            shopLocales.some((l) => !l.primary && l.locale === t.locale)
+        )
+        .map((t) => ({ locale: t.locale, descriptionHtml: sanitizeHTML(t.description) }))
+        .filter((t) => t.descriptionHtml);
+
+      const draft = await submitDraft(shop, staffFromSession(session), {
+        productId: product.id,
+        productTitle: product.title,
+        historyId: String(formData.get("historyId") || "") || undefined,
+        candidateGroup: String(formData.get("candidateGroup") || "") || undefined,
+        chosenIds: String(formData.get("chosenIds") || "").split(",").filter(Boolean),
+        descriptionHtml,
+        seo,
+        translations,
+      });
+
+      return json({
+        status: "submitted",
+        message: "Sent for review",
+        data: { draftId: draft.id, descriptionHtml, removed },
+      });
+    } catch (error) {
+      console.error("Submit error:", error);
+      return json(
+        { status: "error", message: "Failed to submit draft" },
+        { status: 500 }
       );
+    }
+  }
 
-      const responseJson = await response.json();
-      const userErrors = responseJson.data?.productUpdate?.userErrors ?? [];
+  // Publishing goes through review: only an approved draft, by id, reaches productUpdate
+  if (actionType === "save") {
+    try {
+      const draftId = String(formData.get("draftId") || "");
+      const draft = await getDraft(shop, draftId);
+      if (!draft) {
+        return json({ status: "error", message: "Draft not found" }, { status: 404 });
+      }
+      if (draft.status !== "approved") {
+        return json({ status: "error", message: "Only approved drafts can be published" }, { status: 403 });
+      }
+      if (draft.publishedAt) {
+        return json({ status: "error", message: "This draft is already published" }, { status: 409 });
+      }
+
+      // Snapshot the live description first so this save can be rolled back
+      const { userErrors, translations } = await publishDraft(admin, shop, draft.id, staffFromSession(session));
 
       if (userErrors.length > 0) {
         return json(
@@ -135,9 +294,15 @@ export async function action({ request }: ActionFunctionArgs) {
         );
       }
 
+      const failed = translations.filter((t) => t.status === "error");
       return json({
         status: "saved",
-        message: "Product updated successfully",
+        message:
+          failed.length > 0
+            ? `Product updated, but ${failed.length} of ${translations.length} translations failed: ${failed[0].message}`
+            : translations.length > 0
+              ? `Product updated with ${translations.length} translations`
+              : "Product updated successfully",
       });
     } catch (error) {
       console.error("Save error:", error);
@@ -148,6 +313,73 @@ export async function action({ request }: ActionFunctionArgs) {
     }
   }
 
+  if (actionType === "localize") {
+    try {
+      const productId = String(formData.get("productId"));
+      const mode = formData.get("mode") === "translate" ? "translate" : "native";
+      const requested = String(formData.get("locales") || "").split(",").filter(Boolean);
+      const shopLocales = await getPublishedLocales(admin);
+      const locales = shopLocales.filter((l) => !l.primary && requested.includes(l.locale));
+
+      if (locales.length === 0) {
+        return json({ status: "error", message: "Choose at least one published locale" }, { status: 400 });
+      }
+
+      const product = await fetchProductForGeneration(admin, productId);
+      if (!product) {
+        return json({ status: "error", message: "Product not found" }, { status: 404 });
+      }
+
+      const sourceHtml = String(formData.get("sourceHtml") || "");
+      const voice = await resolveVoice(shop, String(formData.get("voiceId") || ""));
+      const format = String(formData.get("format") || "paragraph");
+      const keywords = String(formData.get("keywords") || "");
+
+      // Sequential on purpose: each locale counts against the per-minute rate limit
+      const translations = [];
+      for (const { locale, name } of locales) {
+        try {
+          const result =
+            mode === "translate"
+              ? await deepseek.translateDescription({ html: sourceHtml, productId, language: name, format, shop })
+              : await deepseek.generateDescription({ product, voice, format, keywords, language: name, shop });
+          // Flagged translations are still usable drafts, like flagged descriptions
+          const violations: { message: string }[] = result.guardrail?.violations ?? [];
+          translations.push({
+            locale,
+            name,
+            description: String(result.description ?? ""),
+            status: "draft" as const,
+            ...(violations.length > 0
+              ? { message: `Breaks your content guardrails: ${violations.map((v) => v.message).join("; ")}` }
+              : {}),
+          });
+        } catch (error) {
+          translations.push({
+            locale,
+            name,
+            description: "",
+            status: "error" as const,
+            message:
+              error instanceof AIValidationError
+                ? "The AI returned a malformed translation"
+                : error instanceof Error
+                  ? error.message
+                  : "Failed to localize",
+          });
+        }
+      }
+
+      return json({ status: "success", data: { translations } });
+    } catch (error) {
+      console.error("Localize error:", error);
+      return json(
+        { status: "error", message: error instanceof Error ? error.message : "Failed to localize" },
+        { status: 500 }
+      );
+    }
+  }
+
   return json(
     { status: "error", message: "Invalid action" },
     { status: 400 }
@@ -3,7 +3,8 @@ import {
   type LoaderFunctionArgs,
   type ActionFunctionArgs,
 } from "@remix-run/node";
-import { useLoaderData, useFetcher } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { useLoaderData, useFetcher, useSearchParams } from "@remix-run/react";
 import {
   Page,
   Card,
@@ -11,43 +12,173 @@ import {
   BlockStack,
   InlineStack,
   Badge,
+  Banner,
   Button,
   EmptyState,
   Box,
   Divider,
+  Tabs,
+  List,
+  Pagination,
 } from "@shopify/polaris";
-import { Trash2, Calendar, Tag, Hash } from "lucide-react";
+import { Trash2, Calendar, RotateCcw } from "lucide-react";
 import { authenticate } from "../shopify.server";
-import { getHistory, clearHistory, deleteHistoryEntry } from "../services/history.server";
+import { getHistory, clearHistory, deleteHistoryEntry, type HistoryEntry } from "../services/history.server";
+import { CANDIDATE_STYLES } from "../services/deepseek.server";
+import { fetchProductDescription } from "../services/products.server";
+import { exportCsv, type ExportSource } from "../services/csv.server";
+import { sanitizeHTML } from "../utils/sanitize.server";
+import { DescriptionDiff } from "../components/DescriptionDiff";
+import { scoreTone } from "../components/ContentScorePanel";
+import { analyzeDescription } from "../utils/content-score";
+import {
+  listRevisions,
+  restoreRevision,
+  revertBulkJob,
+  type Revision,
+} from "../services/revisions.server";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  await authenticate.admin(request);
-  const history = await getHistory();
-  return json({ history });
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const productId = url.searchParams.get("productId") ?? undefined;
+
+  const [page, revisions] = await Promise.all([
+    getHistory(session.shop, { after: url.searchParams.get("after"), before: url.searchParams.get("before") }),
+    listRevisions(session.shop, productId),
+  ]);
+  const styleLabels = Object.fromEntries(CANDIDATE_STYLES.map((style) => [style.id, style.label]));
+  // Scored here rather than stored, so older entries and scoring changes are covered too
+  const scored = page.entries.map((entry) => ({
+    ...entry,
+    score: analyzeDescription(entry.description, entry.keywords ?? "", entry.format).score,
+  }));
+  // Snapshots hold the product's raw live HTML, which is rendered below
+  const safeRevisions = revisions.map((revision) => ({
+    ...revision,
+    descriptionHtml: sanitizeHTML(revision.descriptionHtml),
+  }));
+  return json({
+    history: scored,
+    pageInfo: page.pageInfo,
+    total: page.total,
+    revisions: safeRevisions,
+    productId,
+    styleLabels,
+  });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get("action");
 
   if (action === "delete") {
     const id = String(formData.get("id"));
-    await deleteHistoryEntry(id);
+    await deleteHistoryEntry(session.shop, id);
     return json({ success: true });
   }
 
   if (action === "clearAll") {
-    await clearHistory();
+    await clearHistory(session.shop);
     return json({ success: true });
   }
 
+  if (action === "restoreRevision") {
+    const id = String(formData.get("id"));
+    const { userErrors } = await restoreRevision(admin, session.shop, id);
+    if (userErrors.length > 0) {
+      return json({ success: false, message: userErrors[0].message }, { status: 400 });
+    }
+    return json({ success: true, message: "Description restored" });
+  }
+
+  if (action === "currentDescription") {
+    const product = await fetchProductDescription(admin, String(formData.get("productId")));
+    if (!product) {
+      return json({ success: false, message: "Product not found" }, { status: 404 });
+    }
+    return json({ success: true, descriptionHtml: sanitizeHTML(product.descriptionHtml ?? "") });
+  }
+
+  if (action === "exportCsv") {
+    const source: ExportSource = formData.get("source") === "drafts" ? "drafts" : "history";
+    const csv = await exportCsv(admin, session.shop, source);
+    const date = new Date().toISOString().slice(0, 10);
+    return json({ success: true, csv, filename: `descriptions-${source}-${date}.csv` });
+  }
+
+  if (action === "revertBulk") {
+    const jobId = String(formData.get("jobId"));
+    const { restored, failed } = await revertBulkJob(admin, session.shop, jobId);
+    if (failed.length > 0) {
+      return json(
+        {
+          success: false,
+          message: `Restored ${restored} products; ${failed.length} failed (${failed[0].productTitle}: ${failed[0].message})`,
+        },
+        { status: 400 }
+      );
+    }
+    return json({ success: true, message: `Restored ${restored} products` });
+  }
+
   return json({ success: false }, { status: 400 });
 }
 
+const sourceLabel: Record<Revision["source"], string> = {
+  save: "Before save",
+  bulk: "Before bulk save",
+  restore: "Before restore",
+  automation: "Before automation",
+  import: "Before CSV import",
+};
+
+function GuardrailBadge({ outcome }: { outcome?: HistoryEntry["guardrail"] }) {
+  if (!outcome) return <Badge>Guardrails not checked</Badge>;
+  if (outcome.status === "flagged") return <Badge tone="critical">Guardrails flagged</Badge>;
+  if (outcome.status === "regenerated") {
+    return (
+      <Badge tone="attention">
+        {`Guardrails passed after ${outcome.regenerations} regeneration${outcome.regenerations !== 1 ? "s" : ""}`}
+      </Badge>
+    );
+  }
+  return <Badge tone="success">Guardrails passed</Badge>;
+}
+
 export default function HistoryPage() {
-  const { history } = useLoaderData<typeof loader>();
-  const fetcher = useFetcher();
+  const { history, pageInfo, total, revisions, productId, styleLabels } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success: boolean; message?: string }>();
+  // Separate fetcher so loading a comparison never shows in the action banner
+  const compareFetcher = useFetcher<{ success: boolean; message?: string; descriptionHtml?: string }>();
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const exportFetcher = useFetcher<{ success: boolean; csv: string; filename: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedTab = searchParams.get("tab") === "revisions" ? 1 : 0;
+
+  // Group bulk snapshots so a whole job can be reverted at once
+  const bulkGroups = new Map<string, Revision[]>();
+  for (const revision of revisions) {
+    if (revision.source !== "bulk" || !revision.bulkJobId || revision.restoredAt) continue;
+    bulkGroups.set(revision.bulkJobId, [...(bulkGroups.get(revision.bulkJobId) ?? []), revision]);
+  }
+
+  // The export comes back as text; a Blob link saves it without a second authenticated request
+  useEffect(() => {
+    const data = exportFetcher.data;
+    if (exportFetcher.state !== "idle" || !data?.success) return;
+    const url = URL.createObjectURL(new Blob([data.csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = data.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [exportFetcher.state, exportFetcher.data]);
+
+  const handleExport = (source: "history" | "drafts") => {
+    exportFetcher.submit({ action: "exportCsv", source }, { method: "post" });
+  };
 
   const handleDelete = (id: string) => {
     if (confirm("Delete this history entry?")) {
@@ -67,12 +198,54 @@ export default function HistoryPage() {
     }
   };
 
+  const handleRestore = (id: string) => {
+    if (confirm("Restore this description to the product?")) {
+      fetcher.submit({ action: "restoreRevision", id }, { method: "post" });
+    }
+  };
+
+  const handleRevertBulk = (jobId: string, count: number) => {
+    if (confirm(`Restore ${count} products to their descriptions before this bulk job?`)) {
+      fetcher.submit({ action: "revertBulk", jobId }, { method: "post" });
+    }
+  };
+
+  const handleCompare = (entryId: string, entryProductId: string) => {
+    if (comparingId === entryId) {
+      setComparingId(null);
+      return;
+    }
+    setComparingId(entryId);
+    compareFetcher.submit({ action: "currentDescription", productId: entryProductId }, { method: "post" });
+  };
+
+  const goToPage = (cursor: "after" | "before", value: string | null) => {
+    if (value) setSearchParams({ [cursor]: value });
+  };
+
+  const showRevisions = (id?: string) => {
+    const next = new URLSearchParams({ tab: "revisions" });
+    if (id) next.set("productId", id);
+    setSearchParams(next);
+  };
+
   return (
     <Page
       title="Generation History"
-      subtitle={`${history.length} generation${history.length !== 1 ? 's' : ''}`}
-      secondaryActions={
-        history.length > 0
+      subtitle={`${total} generation${total !== 1 ? 's' : ''}`}
+      secondaryActions={[
+        { content: "Import CSV", url: "/app/import" },
+        {
+          content: "Export history CSV",
+          onAction: () => handleExport("history"),
+          loading: exportFetcher.state !== "idle" && exportFetcher.formData?.get("source") === "history",
+        },
+        {
+          content: "Export drafts CSV",
+          onAction: () => handleExport("drafts"),
+          loading: exportFetcher.state !== "idle" && exportFetcher.formData?.get("source") === "drafts",
+        },
+        ...(history.length > 0 && selectedTab === 0
           ? [
               {
                 content: "Clear All",
@@ -80,10 +253,26 @@ export default function HistoryPage() {
                 onAction: handleClearAll,
               },
             ]
-          : []
-      }
+          : []),
+      ]}
     >
-      {history.length === 0 ? (
+      <BlockStack gap="400">
+        {fetcher.state === "idle" && fetcher.data?.message && (
+          <Banner tone={fetcher.data.success ? "success" : "critical"}>
+            <p>{fetcher.data.message}</p>
+          </Banner>
+        )}
+
+        <Tabs
+          tabs={[
+            { id: "generations", content: "Generations" },
+            { id: "revisions", content: "Revisions" },
+          ]}
+          selected={selectedTab}
+          onSelect={(index) => (index === 1 ? showRevisions(productId) : setSearchParams({}))}
+        />
+
+      {selectedTab === 0 && (history.length === 0 ? (
         <Card>
           <EmptyState
             heading="No generation history yet"
@@ -106,23 +295,17 @@ export default function HistoryPage() {
                       {item.productTitle}
                     </Text>
                     <InlineStack gap="200" blockAlign="center">
-                      <Badge tone="info">
-                        <InlineStack gap="100" blockAlign="center">
-                          <Tag size={12} />
-                          <Text as="span">{item.vibe}</Text>
-                        </InlineStack>
-                      </Badge>
-                      <Badge>
-                        <InlineStack gap="100" blockAlign="center">
-                          <Hash size={12} />
-                          <Text as="span">{item.format}</Text>
-                        </InlineStack>
-                      </Badge>
+                      <Badge tone="info">{item.vibe}</Badge>
+                      <Badge>{item.format}</Badge>
                       {item.keywords && (
-                        <Badge tone="attention">
-                          <Text as="span">{item.keywords}</Text>
-                        </Badge>
+                        <Badge tone="attention">{item.keywords}</Badge>
                       )}
+                      {item.candidateStyle && (
+                        <Badge>{`Candidate: ${styleLabels[item.candidateStyle] ?? item.candidateStyle}`}</Badge>
+                      )}
+                      {item.chosen && <Badge tone="success">Chosen</Badge>}
+                      <Badge tone={scoreTone(item.score)}>{`Score ${item.score}`}</Badge>
+                      <GuardrailBadge outcome={item.guardrail} />
                     </InlineStack>
                   </BlockStack>
 
@@ -130,23 +313,46 @@ export default function HistoryPage() {
                     onClick={() => handleDelete(item.id)}
                     tone="critical"
                     variant="plain"
-                  >
-                    <Trash2 size={16} />
-                  </Button>
+                    icon={<Trash2 size={16} />}
+                    accessibilityLabel="Delete entry"
+                  />
                 </InlineStack>
 
+                {item.guardrail?.status === "flagged" && (
+                  <Banner tone="critical" title="Breaks the content guardrails">
+                    <List>
+                      {item.guardrail.violations.map((violation) => (
+                        <List.Item key={violation.message}>{violation.message}</List.Item>
+                      ))}
+                    </List>
+                  </Banner>
+                )}
+
                 <Divider />
 
                 {/* Generated Content */}
-                <Box
-                  background="bg-surface-secondary"
-                  padding="400"
-                  borderRadius="200"
-                >
-                  <div
-                    dangerouslySetInnerHTML={{ __html: item.description }}
-                  />
-                </Box>
+                {comparingId === item.id && compareFetcher.state === "idle" && compareFetcher.data ? (
+                  compareFetcher.data.success ? (
+                    <DescriptionDiff
+                      before={compareFetcher.data.descriptionHtml ?? ""}
+                      after={item.description}
+                      beforeLabel="Current on product"
+                      afterLabel="This generation"
+                    />
+                  ) : (
+                    <Banner tone="critical">{compareFetcher.data.message}</Banner>
+                  )
+                ) : (
+                  <Box
+                    background="bg-surface-secondary"
+                    padding="400"
+                    borderRadius="200"
+                  >
+                    <div
+                      dangerouslySetInnerHTML={{ __html: item.description }}
+                    />
+                  </Box>
+                )}
 
                 {/* Social Media Content */}
                 {item.socials && (
@@ -192,15 +398,123 @@ export default function HistoryPage() {
                     </Text>
                   </InlineStack>
 
-                  <Text as="p" variant="bodySm" tone="subdued">
-                    Product ID: {item.productId.split("/").pop()}
-                  </Text>
+                  <InlineStack gap="300" blockAlign="center">
+                    <Button
+                      variant="plain"
+                      onClick={() => handleCompare(item.id, item.productId)}
+                      loading={comparingId === item.id && compareFetcher.state !== "idle"}
+                    >
+                      {comparingId === item.id ? "Hide comparison" : "Compare with current"}
+                    </Button>
+                    <Button variant="plain" onClick={() => showRevisions(item.productId)}>
+                      Revisions
+                    </Button>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Product ID: {item.productId.split("/").pop()}
+                    </Text>
+                  </InlineStack>
                 </InlineStack>
               </BlockStack>
             </Card>
           ))}
+          {(pageInfo.hasPreviousPage || pageInfo.hasNextPage) && (
+            <InlineStack align="center">
+              <Pagination
+                hasPrevious={pageInfo.hasPreviousPage}
+                onPrevious={() => goToPage("before", pageInfo.startCursor)}
+                hasNext={pageInfo.hasNextPage}
+                onNext={() => goToPage("after", pageInfo.endCursor)}
+              />
+            </InlineStack>
+          )}
+        </BlockStack>
+      ))}
+
+      {selectedTab === 1 && (
+        <BlockStack gap="400">
+          {productId && (
+            <Banner tone="info" onDismiss={() => showRevisions()}>
+              <p>Showing revisions for product {productId.split("/").pop()}</p>
+            </Banner>
+          )}
+
+          {[...bulkGroups.entries()].map(([jobId, group]) => (
+            <Card key={jobId}>
+              <InlineStack align="space-between" blockAlign="center">
+                <BlockStack gap="100">
+                  <Text as="h3" variant="headingSm">Bulk save</Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {group.length} product{group.length !== 1 ? "s" : ""} ·{" "}
+                    {new Date(group[group.length - 1].createdAt).toLocaleString()}
+                  </Text>
+                </BlockStack>
+                <Button
+                  icon={<RotateCcw size={14} />}
+                  onClick={() => handleRevertBulk(jobId, group.length)}
+                  loading={fetcher.state !== "idle"}
+                >
+                  Revert bulk save
+                </Button>
+              </InlineStack>
+            </Card>
+          ))}
+
+          {revisions.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No revisions yet"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <Text as="p">
+                  Each time a description is saved, the previous version is kept here.
+                </Text>
+              </EmptyState>
+            </Card>
+          ) : (
+            revisions.map((revision) => (
+              <Card key={revision.id}>
+                <BlockStack gap="300">
+                  <InlineStack align="space-between" blockAlign="start">
+                    <BlockStack gap="200">
+                      <Text as="h3" variant="headingMd" fontWeight="semibold">
+                        {revision.productTitle}
+                      </Text>
+                      <InlineStack gap="200">
+                        <Badge>{sourceLabel[revision.source]}</Badge>
+                        {revision.restoredAt && <Badge tone="success">Restored</Badge>}
+                      </InlineStack>
+                    </BlockStack>
+
+                    <Button
+                      icon={<RotateCcw size={14} />}
+                      onClick={() => handleRestore(revision.id)}
+                      loading={fetcher.state !== "idle"}
+                    >
+                      Restore
+                    </Button>
+                  </InlineStack>
+
+                  <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                    {revision.descriptionHtml ? (
+                      <div dangerouslySetInnerHTML={{ __html: revision.descriptionHtml }} />
+                    ) : (
+                      <Text as="p" tone="subdued">(empty description)</Text>
+                    )}
+                  </Box>
+
+                  <InlineStack gap="200" blockAlign="center">
+                    <Calendar size={14} />
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </Text>
+                  </InlineStack>
+                </BlockStack>
+              </Card>
+            ))
+          )}
         </BlockStack>
       )}
+      </BlockStack>
     </Page>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { useFetcher } from "@remix-run/react";
+import {
+  Page,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Banner,
+  Button,
+  Checkbox,
+  DropZone,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { applyImport, previewImport, type ImportChange, type ImportRow } from "../services/csv.server";
+import { staffFromSession } from "../services/reviews.server";
+import { DescriptionDiff } from "../components/DescriptionDiff";
+import { MAX_IMPORT_ROWS } from "../utils/csv";
+
+type PreviewResponse =
+  | { success: true; rows: ImportRow[] }
+  | { success: false; message: string };
+
+type ApplyResponse = { success: boolean; message: string };
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+
+  if (action === "preview") {
+    try {
+      const rows = await previewImport(admin, String(formData.get("csv") || ""));
+      return json({ success: true, rows });
+    } catch (error) {
+      return json(
+        { success: false, message: error instanceof Error ? error.message : "Could not read the file" },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (action === "apply") {
+    let changes: unknown;
+    try {
+      changes = JSON.parse(String(formData.get("changes") || "[]"));
+    } catch {
+      changes = null;
+    }
+    if (!Array.isArray(changes)) {
+      return json({ success: false, message: "Invalid import" }, { status: 400 });
+    }
+    const { submitted, failed } = await applyImport(admin, session.shop, staffFromSession(session), changes);
+    if (failed.length > 0) {
+      return json(
+        {
+          success: false,
+          message: `Submitted ${submitted} drafts for review; ${failed.length} failed (${failed[0].message})`,
+        },
+        { status: 400 }
+      );
+    }
+    return json({ success: true, message: `Submitted ${submitted} drafts for review` });
+  }
+
+  return json({ success: false, message: "Invalid action" }, { status: 400 });
+}
+
+export default function ImportPage() {
+  const previewFetcher = useFetcher<PreviewResponse>();
+  const applyFetcher = useFetcher<ApplyResponse>();
+  const [fileName, setFileName] = useState<string | null>(null);
+  // Lines of the changed rows the merchant wants applied
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const preview = previewFetcher.data?.success ? previewFetcher.data.rows : null;
+  const changed = preview?.filter((row) => row.status === "changed") ?? [];
+  const errors = preview?.filter((row) => row.status === "error") ?? [];
+  const unchangedCount = preview?.filter((row) => row.status === "unchanged").length ?? 0;
+
+  // Every change starts ticked
+  useEffect(() => {
+    if (previewFetcher.state !== "idle" || !previewFetcher.data?.success) return;
+    setSelected(previewFetcher.data.rows.filter((row) => row.status === "changed").map((row) => row.line));
+  }, [previewFetcher.state, previewFetcher.data]);
+
+  // Applied rows are waiting in Approvals; a second apply would only add duplicate drafts
+  useEffect(() => {
+    if (applyFetcher.state === "idle" && applyFetcher.data?.success) setSelected([]);
+  }, [applyFetcher.state, applyFetcher.data]);
+
+  const handleDrop = async (_dropped: File[], accepted: File[]) => {
+    const file = accepted[0];
+    if (!file) return;
+    setFileName(file.name);
+    previewFetcher.submit({ action: "preview", csv: await file.text() }, { method: "post" });
+  };
+
+  const handleApply = () => {
+    const changes: ImportChange[] = changed
+      .filter((row) => selected.includes(row.line) && row.productId)
+      .map((row) => ({ productId: row.productId!, descriptionHtml: row.descriptionHtml, seo: row.seo }));
+    if (confirm(`Submit ${changes.length} descriptions for review? They are published from Approvals.`)) {
+      applyFetcher.submit({ action: "apply", changes: JSON.stringify(changes) }, { method: "post" });
+    }
+  };
+
+  const toggle = (line: number, checked: boolean) =>
+    setSelected((existing) => (checked ? [...existing, line] : existing.filter((l) => l !== line)));
+
+  return (
+    <Page
+      title="Import descriptions"
+      subtitle="Apply descriptions from a CSV in Shopify's product format"
+      backAction={{ content: "History", url: "/app/history" }}
+    >
+      <BlockStack gap="400">
+        {previewFetcher.state === "idle" && previewFetcher.data && !previewFetcher.data.success && (
+          <Banner tone="critical">
+            <p>{previewFetcher.data.message}</p>
+          </Banner>
+        )}
+        {applyFetcher.state === "idle" && applyFetcher.data && (
+          <Banner tone={applyFetcher.data.success ? "success" : "critical"}>
+            <p>{applyFetcher.data.message}</p>
+          </Banner>
+        )}
+
+        <Card>
+          <BlockStack gap="300">
+            <Text as="p">
+              Rows are matched by the Handle or Product ID column and need a Body (HTML) column. SEO Title and SEO
+              Description are applied when filled in. Up to {MAX_IMPORT_ROWS} products per file. Applied rows are
+              submitted for review and published from Approvals.
+            </Text>
+            <DropZone accept=".csv,text/csv" type="file" allowMultiple={false} onDrop={handleDrop}>
+              {fileName ? (
+                <BlockStack inlineAlign="center">
+                  <Text as="p">{fileName}</Text>
+                </BlockStack>
+              ) : (
+                <DropZone.FileUpload actionHint="Accepts .csv" />
+              )}
+            </DropZone>
+            {previewFetcher.state !== "idle" && <Text as="p" tone="subdued">Reading file…</Text>}
+          </BlockStack>
+        </Card>
+
+        {preview && (
+          <Card>
+            <InlineStack align="space-between" blockAlign="center">
+              <InlineStack gap="200">
+                <Badge tone="success">{`${changed.length} to update`}</Badge>
+                <Badge>{`${unchangedCount} unchanged`}</Badge>
+                {errors.length > 0 && <Badge tone="critical">{`${errors.length} skipped`}</Badge>}
+              </InlineStack>
+              <Button
+                variant="primary"
+                onClick={handleApply}
+                disabled={selected.length === 0}
+                loading={applyFetcher.state !== "idle"}
+              >
+                {`Submit ${selected.length} changes for review`}
+              </Button>
+            </InlineStack>
+          </Card>
+        )}
+
+        {errors.length > 0 && (
+          <Banner tone="warning" title="Some rows will be skipped">
+            <BlockStack gap="100">
+              {errors.map((row) => (
+                <Text as="p" key={row.line}>
+                  Line {row.line} ({row.productTitle ?? row.ref}): {row.message}
+                </Text>
+              ))}
+            </BlockStack>
+          </Banner>
+        )}
+
+        {changed.map((row) => (
+          <Card key={row.line}>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Checkbox
+                  label={row.productTitle ?? row.ref}
+                  checked={selected.includes(row.line)}
+                  onChange={(checked) => toggle(row.line, checked)}
+                />
+                <InlineStack gap="200">
+                  <Badge>{`Line ${row.line}`}</Badge>
+                  {row.seo && <Badge>SEO fields</Badge>}
+                </InlineStack>
+              </InlineStack>
+
+              {row.removed.length > 0 && (
+                <Banner tone="warning">
+                  <p>Not allowed in descriptions and removed: {row.removed.join(", ")}</p>
+                </Banner>
+              )}
+
+              <DescriptionDiff
+                before={row.currentHtml ?? ""}
+                after={row.descriptionHtml}
+                beforeLabel="Current on product"
+                afterLabel="From CSV"
+              />
+
+              {row.seo && (
+                <BlockStack gap="100">
+                  <Text as="p" fontWeight="semibold">{row.seo.title}</Text>
+                  <Text as="p" variant="bodySm" tone="subdued">{row.seo.description}</Text>
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        ))}
+      </BlockStack>
+    </Page>
+  );
+}
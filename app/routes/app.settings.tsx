@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Badge,
+  Banner,
+  Button,
+  TextField,
+  EmptyState,
+  Checkbox,
+  ChoiceList,
+  Select,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  BUILT_IN_VOICES,
+  createVoiceProfile,
+  deleteVoiceProfile,
+  listVoiceProfiles,
+  parseVoiceForm,
+  updateVoiceProfile,
+  type Voice,
+} from "../services/voices.server";
+import {
+  CLAIM_CATEGORIES,
+  getGuardrailPolicy,
+  parseGuardrailForm,
+  saveGuardrailPolicy,
+  type ClaimCategory,
+  type GuardrailPolicy,
+} from "../services/guardrails.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const [profiles, policy] = await Promise.all([
+    listVoiceProfiles(session.shop),
+    getGuardrailPolicy(session.shop),
+  ]);
+  // The patterns themselves stay on the server
+  const claimCategories = (Object.keys(CLAIM_CATEGORIES) as ClaimCategory[]).map((id) => ({
+    value: id,
+    label: CLAIM_CATEGORIES[id].label,
+  }));
+  return json({ profiles, builtIn: BUILT_IN_VOICES, policy, claimCategories });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("action");
+
+  if (action === "saveVoice") {
+    const input = parseVoiceForm(formData);
+    if (!input.name || !input.tone) {
+      return json(
+        { success: false, message: "A voice needs a name and a tone description" },
+        { status: 400 }
+      );
+    }
+
+    const id = String(formData.get("id") || "");
+    if (id) {
+      await updateVoiceProfile(session.shop, id, input);
+    } else {
+      await createVoiceProfile(session.shop, input);
+    }
+    return json({ success: true, message: "Voice saved" });
+  }
+
+  if (action === "deleteVoice") {
+    await deleteVoiceProfile(session.shop, String(formData.get("id")));
+    return json({ success: true, message: "Voice deleted" });
+  }
+
+  if (action === "saveGuardrails") {
+    const policy = parseGuardrailForm(formData);
+    for (const format of ["paragraph", "bullets"] as const) {
+      const { min, max } = policy.wordLimits[format];
+      if (min && max && min > max) {
+        return json(
+          { success: false, message: `The ${format} minimum word count is above its maximum` },
+          { status: 400 }
+        );
+      }
+    }
+    await saveGuardrailPolicy(session.shop, policy);
+    return json({ success: true, message: "Guardrails saved" });
+  }
+
+  return json({ success: false, message: "Invalid action" }, { status: 400 });
+}
+
+type VoiceFormState = {
+  id: string;
+  name: string;
+  tone: string;
+  examples: string;
+  preferredWords: string;
+  bannedWords: string;
+  targetLength: string;
+};
+
+const emptyForm: VoiceFormState = {
+  id: "",
+  name: "",
+  tone: "",
+  examples: "",
+  preferredWords: "",
+  bannedWords: "",
+  targetLength: "",
+};
+
+type GuardrailFormState = {
+  enabled: boolean;
+  bannedWords: string;
+  claimCategories: string[];
+  customClaims: string;
+  paragraphMinWords: string;
+  paragraphMaxWords: string;
+  bulletsMinWords: string;
+  bulletsMaxWords: string;
+  onViolation: GuardrailPolicy["onViolation"];
+};
+
+function toGuardrailForm(policy: GuardrailPolicy): GuardrailFormState {
+  const limit = (value?: number) => (value ? String(value) : "");
+  return {
+    enabled: policy.enabled,
+    bannedWords: policy.bannedWords.join(", "),
+    claimCategories: policy.claimCategories,
+    customClaims: policy.customClaims.join("\n"),
+    paragraphMinWords: limit(policy.wordLimits.paragraph.min),
+    paragraphMaxWords: limit(policy.wordLimits.paragraph.max),
+    bulletsMinWords: limit(policy.wordLimits.bullets.min),
+    bulletsMaxWords: limit(policy.wordLimits.bullets.max),
+    onViolation: policy.onViolation,
+  };
+}
+
+function toForm(voice: Voice): VoiceFormState {
+  return {
+    id: voice.id,
+    name: voice.name,
+    tone: voice.tone,
+    examples: voice.examples.join("\n"),
+    preferredWords: voice.preferredWords.join(", "),
+    bannedWords: voice.bannedWords.join(", "),
+    targetLength: voice.targetLength ? String(voice.targetLength) : "",
+  };
+}
+
+export default function SettingsPage() {
+  const { profiles, builtIn, policy, claimCategories } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success: boolean; message: string }>();
+  // Separate fetcher so saving guardrails never resets the voice editor
+  const guardrailFetcher = useFetcher<{ success: boolean; message: string }>();
+  const [form, setForm] = useState<VoiceFormState>(emptyForm);
+  const [guardrails, setGuardrails] = useState<GuardrailFormState>(() => toGuardrailForm(policy));
+
+  const isSaving = fetcher.state !== "idle";
+  const update = (field: keyof VoiceFormState) => (value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  // Reset the editor once a save lands
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.success) setForm(emptyForm);
+  }, [fetcher.state, fetcher.data]);
+
+  const handleSave = () => {
+    fetcher.submit({ action: "saveVoice", ...form }, { method: "post" });
+  };
+
+  const updateGuardrail = <K extends keyof GuardrailFormState>(field: K) => (value: GuardrailFormState[K]) =>
+    setGuardrails((prev) => ({ ...prev, [field]: value }));
+
+  const handleSaveGuardrails = () => {
+    guardrailFetcher.submit(
+      {
+        action: "saveGuardrails",
+        ...guardrails,
+        enabled: String(guardrails.enabled),
+        claimCategories: guardrails.claimCategories.join(","),
+      },
+      { method: "post" }
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this voice profile?")) {
+      fetcher.submit({ action: "deleteVoice", id }, { method: "post" });
+    }
+  };
+
+  return (
+    <Page title="Settings">
+      <Layout>
+        <Layout.AnnotatedSection
+          title="Brand voices"
+          description="Voices shape the tone of every generated description. The built-in voices are always available."
+        >
+          <BlockStack gap="400">
+            {fetcher.state === "idle" && fetcher.data && !fetcher.data.success && (
+              <Banner tone="critical">
+                <p>{fetcher.data.message}</p>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">
+                  {form.id ? "Edit voice" : "New voice"}
+                </Text>
+                <TextField label="Name" value={form.name} onChange={update("name")} autoComplete="off" />
+                <TextField
+                  label="Tone"
+                  value={form.tone}
+                  onChange={update("tone")}
+                  multiline={2}
+                  helpText="Describe how the copy should sound, e.g. “Warm, playful, never pushy.”"
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Example sentences"
+                  value={form.examples}
+                  onChange={update("examples")}
+                  multiline={4}
+                  helpText="One per line. The model matches the style without copying them."
+                  autoComplete="off"
+                />
+                <InlineGrid columns={2} gap="400">
+                  <TextField
+                    label="Words to prefer"
+                    value={form.preferredWords}
+                    onChange={update("preferredWords")}
+                    helpText="Comma-separated"
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Words to ban"
+                    value={form.bannedWords}
+                    onChange={update("bannedWords")}
+                    helpText="Comma-separated"
+                    autoComplete="off"
+                  />
+                </InlineGrid>
+                <TextField
+                  label="Target length (words)"
+                  type="number"
+                  value={form.targetLength}
+                  onChange={update("targetLength")}
+                  autoComplete="off"
+                />
+                <InlineStack align="end" gap="200">
+                  {form.id && <Button onClick={() => setForm(emptyForm)}>Cancel</Button>}
+                  <Button variant="primary" onClick={handleSave} loading={isSaving}>
+                    Save voice
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+
+            {profiles.length === 0 ? (
+              <Card>
+                <EmptyState
+                  heading="No custom voices yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <Text as="p">Create a voice above to use it on the Dashboard.</Text>
+                </EmptyState>
+              </Card>
+            ) : (
+              profiles.map((voice) => (
+                <Card key={voice.id}>
+                  <BlockStack gap="200">
+                    <InlineStack align="space-between" blockAlign="center">
+                      <Text as="h3" variant="headingSm">{voice.name}</Text>
+                      <InlineStack gap="200">
+                        <Button variant="plain" onClick={() => setForm(toForm(voice))}>Edit</Button>
+                        <Button variant="plain" tone="critical" onClick={() => handleDelete(voice.id)}>
+                          Delete
+                        </Button>
+                      </InlineStack>
+                    </InlineStack>
+                    <Text as="p" tone="subdued">{voice.tone}</Text>
+                    <InlineStack gap="200">
+                      {voice.targetLength && <Badge>{`~${voice.targetLength} words`}</Badge>}
+                      {voice.bannedWords.length > 0 && (
+                        <Badge tone="critical">{`${voice.bannedWords.length} banned words`}</Badge>
+                      )}
+                      {voice.examples.length > 0 && (
+                        <Badge tone="info">{`${voice.examples.length} examples`}</Badge>
+                      )}
+                    </InlineStack>
+                  </BlockStack>
+                </Card>
+              ))
+            )}
+
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h3" variant="headingSm">Built-in voices</Text>
+                {builtIn.map((voice) => (
+                  <Text as="p" key={voice.id}>
+                    <strong>{voice.name}</strong> — {voice.tone}
+                  </Text>
+                ))}
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Content guardrails"
+          description="Checked on every generated and refined description before you see it. Bulk jobs and automations never publish a description that fails them."
+        >
+          <BlockStack gap="400">
+            {guardrailFetcher.state === "idle" && guardrailFetcher.data && (
+              <Banner tone={guardrailFetcher.data.success ? "success" : "critical"}>
+                <p>{guardrailFetcher.data.message}</p>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="400">
+                <Checkbox
+                  label="Enforce guardrails"
+                  checked={guardrails.enabled}
+                  onChange={updateGuardrail("enabled")}
+                />
+                <TextField
+                  label="Banned words and phrases"
+                  value={guardrails.bannedWords}
+                  onChange={updateGuardrail("bannedWords")}
+                  helpText="Comma-separated. Also checked in the SEO title and meta description."
+                  autoComplete="off"
+                />
+                <ChoiceList
+                  title="Restricted claims"
+                  allowMultiple
+                  choices={claimCategories}
+                  selected={guardrails.claimCategories}
+                  onChange={updateGuardrail("claimCategories")}
+                />
+                <TextField
+                  label="Other restricted claims"
+                  value={guardrails.customClaims}
+                  onChange={updateGuardrail("customClaims")}
+                  multiline={3}
+                  helpText="One phrase per line, e.g. “hypoallergenic”"
+                  autoComplete="off"
+                />
+                <InlineGrid columns={4} gap="300">
+                  <TextField
+                    label="Paragraph min words"
+                    type="number"
+                    value={guardrails.paragraphMinWords}
+                    onChange={updateGuardrail("paragraphMinWords")}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Paragraph max words"
+                    type="number"
+                    value={guardrails.paragraphMaxWords}
+                    onChange={updateGuardrail("paragraphMaxWords")}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Bullets min words"
+                    type="number"
+                    value={guardrails.bulletsMinWords}
+                    onChange={updateGuardrail("bulletsMinWords")}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Bullets max words"
+                    type="number"
+                    value={guardrails.bulletsMaxWords}
+                    onChange={updateGuardrail("bulletsMaxWords")}
+                    autoComplete="off"
+                  />
+                </InlineGrid>
+                <Select
+                  label="When a description fails"
+                  options={[
+                    { label: "Regenerate automatically, then flag if it still fails", value: "regenerate" },
+                    { label: "Flag it without regenerating", value: "flag" },
+                  ]}
+                  value={guardrails.onViolation}
+                  onChange={(value) => updateGuardrail("onViolation")(value as GuardrailPolicy["onViolation"])}
+                  helpText="Each regeneration is part of the same generation and is not counted again"
+                />
+                <InlineStack align="end">
+                  <Button variant="primary" onClick={handleSaveGuardrails} loading={guardrailFetcher.state !== "idle"}>
+                    Save guardrails
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.AnnotatedSection>
+      </Layout>
+    </Page>
+  );
+}
@@ -24,7 +24,14 @@ export default function App() {
         <Link to="/app" rel="home">
           Dashboard
         </Link>
+        <Link to="/app/bulk">Bulk</Link>
         <Link to="/app/history">History</Link>
+        <Link to="/app/approvals">Approvals</Link>
+        <Link to="/app/alt-text">Alt text</Link>
+        <Link to="/app/usage">Usage</Link>
+        <Link to="/app/automations">Automations</Link>
+        <Link to="/app/settings">Settings</Link>
+        <Link to="/app/billing">Billing</Link>
       </NavMenu>
       <Outlet />
     </AppProvider>
@@ -0,0 +1,171 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Banner,
+  Box,
+  ProgressBar,
+  EmptyState,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { deepseek } from "../services/deepseek.server";
+import { getShopPlan } from "../services/billing.server";
+import { getUsageSummary, type UsageDay } from "../services/usage.server";
+
+// Share of the quota at which the page starts warning
+const WARNING_THRESHOLD = 0.8;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const [quota, plan, summary] = await Promise.all([
+    deepseek.checkMonthlyLimit(session.shop),
+    getShopPlan(session.shop),
+    getUsageSummary(session.shop),
+  ]);
+  return json({ used: quota.used, limit: quota.limit, planName: plan.name, summary });
+}
+
+function DailyChart({ days }: { days: UsageDay[] }) {
+  const max = Math.max(1, ...days.map((d) => d.succeeded + d.failed));
+
+  return (
+    <BlockStack gap="200">
+      <div style={{ display: "flex", alignItems: "flex-end", gap: 4, height: 160 }}>
+        {days.map((day) => {
+          const total = day.succeeded + day.failed;
+          return (
+            <div
+              key={day.date}
+              title={`${day.date}: ${day.succeeded} generated, ${day.failed} failed`}
+              style={{ flex: 1, display: "flex", flexDirection: "column", justifyContent: "flex-end", height: "100%" }}
+            >
+              {day.failed > 0 && (
+                <div style={{ height: `${(day.failed / max) * 100}%`, background: "var(--p-color-bg-fill-critical)" }} />
+              )}
+              <div
+                style={{
+                  height: `${(day.succeeded / max) * 100}%`,
+                  minHeight: total > 0 ? 2 : 0,
+                  background: "var(--p-color-bg-fill-brand)",
+                  borderRadius: "2px 2px 0 0",
+                }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <InlineStack align="space-between">
+        <Text as="span" tone="subdued" variant="bodySm">{days[0]?.date}</Text>
+        <Text as="span" tone="subdued" variant="bodySm">{days[days.length - 1]?.date}</Text>
+      </InlineStack>
+    </BlockStack>
+  );
+}
+
+export default function UsagePage() {
+  const { used, limit, planName, summary } = useLoaderData<typeof loader>();
+  const ratio = limit > 0 ? used / limit : 1;
+  const remaining = Math.max(0, limit - used);
+
+  return (
+    <Page title="Usage" subtitle={`${planName} plan · resets on the 1st of each month (UTC)`}>
+      <Layout>
+        {ratio >= 1 ? (
+          <Layout.Section>
+            <Banner
+              tone="critical"
+              title="Monthly limit reached"
+              action={{ content: "Upgrade or buy credits", url: "/app/billing" }}
+            >
+              Generation is paused until next month. Bulk jobs resume once more quota is available.
+            </Banner>
+          </Layout.Section>
+        ) : ratio >= WARNING_THRESHOLD ? (
+          <Layout.Section>
+            <Banner
+              tone="warning"
+              title={`${remaining} generations left this month`}
+              action={{ content: "View plans", url: "/app/billing" }}
+            >
+              You have used {Math.round(ratio * 100)}% of this month&apos;s quota.
+            </Banner>
+          </Layout.Section>
+        ) : null}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">Quota</Text>
+                <Text as="span" tone="subdued">
+                  {used} / {limit} generations
+                </Text>
+              </InlineStack>
+              <ProgressBar
+                progress={Math.min(100, Math.round(ratio * 100))}
+                tone={ratio >= WARNING_THRESHOLD ? "critical" : "primary"}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <InlineGrid columns={{ xs: 2, md: 4 }} gap="400">
+            {[
+              { label: "Generated", value: summary.succeeded.toLocaleString() },
+              { label: "Failed", value: summary.failed.toLocaleString() },
+              { label: "Tokens", value: (summary.promptTokens + summary.completionTokens).toLocaleString() },
+              { label: "Avg. latency", value: `${(summary.avgLatencyMs / 1000).toFixed(1)}s` },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <BlockStack gap="100">
+                  <Text as="span" tone="subdued">{stat.label}</Text>
+                  <Text as="p" variant="headingLg">{stat.value}</Text>
+                </BlockStack>
+              </Card>
+            ))}
+          </InlineGrid>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">This month</Text>
+              <DailyChart days={summary.days} />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">Top products</Text>
+              {summary.topProducts.length === 0 ? (
+                <EmptyState heading="No generations yet" image="">
+                  <p>Products you generate for this month show up here.</p>
+                </EmptyState>
+              ) : (
+                <BlockStack gap="200">
+                  {summary.topProducts.map((product) => (
+                    <Box key={product.productId}>
+                      <InlineStack align="space-between" wrap={false} gap="200">
+                        <Text as="span" truncate>{product.productTitle}</Text>
+                        <Text as="span" tone="subdued">{product.count}</Text>
+                      </InlineStack>
+                    </Box>
+                  ))}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -1,9 +1,10 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import { addHistoryEntry } from "../services/history.server";
+import { getDraft, publishDraft, staffFromSession } from "../services/reviews.server";
 
 export async function action({ request }: ActionFunctionArgs) {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const actionType = formData.get("actionType");
 
@@ -45,7 +46,7 @@ export async function action({ request }: ActionFunctionArgs) {
       } : undefined;
 
       // Save to history
-      await addHistoryEntry({
+      await addHistoryEntry(session.shop, {
         productId: product.id,
         productTitle: product.title,
         description: generatedDescription,
@@ -72,35 +73,18 @@ export async function action({ request }: ActionFunctionArgs) {
     }
   }
 
+  // Same rule as app.generate.ts: only an approved draft can be published
   if (actionType === "save") {
     try {
-      const productId = String(formData.get("productId"));
-      const descriptionHtml = String(formData.get("descriptionHtml"));
+      const draft = await getDraft(session.shop, String(formData.get("draftId") || ""));
+      if (!draft || draft.status !== "approved") {
+        return json({ status: "error", message: "Only approved drafts can be published" }, { status: 403 });
+      }
 
-      await admin.graphql(
-        `#graphql
-          mutation UpdateProduct($input: ProductInput!) {
-            productUpdate(input: $input) {
-              product {
-                id
-                descriptionHtml
-              }
-              userErrors {
-                field
-                message
-              }
-            }
-          }
-        `,
-        {
-          variables: {
-            input: {
-              id: productId,
-              descriptionHtml: descriptionHtml,
-            },
-          },
-        }
-      );
+      const { userErrors } = await publishDraft(admin, session.shop, draft.id, staffFromSession(session));
+      if (userErrors.length > 0) {
+        return json({ status: "error", message: userErrors[0].message }, { status: 400 });
+      }
 
       return json({ status: "saved", message: "Product updated successfully" });
     } catch (error) {
@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { applySubscriptionUpdate } from "../services/billing.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Keeps the stored plan in step when a subscription is cancelled, frozen or
+  // approved outside the Billing page (e.g. from the Shopify admin)
+  await applySubscriptionUpdate(shop, payload.app_subscription);
+
+  return new Response();
+};
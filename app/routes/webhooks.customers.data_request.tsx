@@ -0,0 +1,11 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+
+// We store no customer data (see privacy.server.ts), so there is nothing to report
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop} (request ${payload.data_request?.id}): no customer data held`);
+
+  return new Response();
+};
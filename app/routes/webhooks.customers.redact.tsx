@@ -0,0 +1,11 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+
+// We store no customer data (see privacy.server.ts), so there is nothing to erase
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop} (customer ${payload.customer?.id}): no customer data held`);
+
+  return new Response();
+};
@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { handleProductWebhook, type ProductWebhookPayload } from "../services/automation.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Only queues matching rules; generation runs on the automation worker
+  const queued = await handleProductWebhook(shop, "create", payload as ProductWebhookPayload);
+  if (queued > 0) console.log(`Queued ${queued} automation run(s) for ${payload.admin_graphql_api_id}`);
+
+  return new Response();
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { deepseek } from "../services/deepseek.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // The delete payload only carries the numeric id
+  await deepseek.evictProduct(shop, `gid://shopify/Product/${payload.id}`);
+
+  return new Response();
+};
@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { deepseek } from "../services/deepseek.server";
+import { handleProductWebhook, type ProductWebhookPayload } from "../services/automation.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Cache keys already change with the product's content; this just frees the stale entries early
+  const productId = payload.admin_graphql_api_id ?? `gid://shopify/Product/${payload.id}`;
+  await deepseek.evictProduct(shop, productId);
+
+  const queued = await handleProductWebhook(shop, "update", payload as ProductWebhookPayload);
+  if (queued > 0) console.log(`Queued ${queued} automation run(s) for ${productId}`);
+
+  return new Response();
+};
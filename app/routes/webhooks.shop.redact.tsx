@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { purgeShopData } from "../services/privacy.server";
+
+// Sent 48 hours after uninstall; usually the uninstall purge already removed everything
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const purged = await purgeShopData(shop);
+  console.log(`Purged data for ${shop}`, purged);
+
+  return new Response();
+};
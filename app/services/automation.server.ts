@@ -0,0 +1,393 @@
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { deepseek, ensureRedis, redis, RateLimitError } from "./deepseek.server";
+import { addHistoryEntry } from "./history.server";
+import { wasRecentlySavedByApp } from "./revisions.server";
+import { submitDraft } from "./reviews.server";
+import { resolveVoice } from "./voices.server";
+import { fetchProductForGeneration, isProductInCollection, type AdminClient } from "./products.server";
+import { htmlToText } from "../utils/html";
+
+/**
+ * Automation rules
+ * - Per-shop rules run on the products/create and products/update webhooks,
+ *   offline through `unauthenticated.admin`.
+ * - Webhooks only match rules and queue runs; generation happens on a worker
+ *   loop so the webhook answers inside Shopify's 5 second timeout.
+ * - Loop guard: updates caused by this app's own saves are ignored, and a rule
+ *   runs at most once per product per RUN_COOLDOWN_SECONDS.
+ * - Every queued run is kept as the rule's run log.
+ * - Rules with `publish` submit drafts for review under the rule's name;
+ *   runs logged "published" predate review.
+ */
+
+export type AutomationTrigger = "create" | "update" | "both";
+export type AutomationRunStatus =
+  | "queued"
+  | "running"
+  | "submitted"
+  | "published"
+  | "drafted"
+  | "skipped"
+  | "failed";
+
+export interface AutomationRuleInput {
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  collectionId?: string;
+  collectionTitle?: string;
+  onlyEmptyDescription: boolean;
+  voiceId: string;
+  format: string;
+  keywords?: string;
+  publish: boolean;
+}
+
+export interface AutomationRun {
+  id: string;
+  productId: string;
+  productTitle: string;
+  trigger: "create" | "update";
+  status: AutomationRunStatus;
+  message?: string;
+  historyId?: string;
+  createdAt: string;
+}
+
+export interface AutomationRule extends AutomationRuleInput {
+  id: string;
+  runs: AutomationRun[];
+  createdAt: string;
+}
+
+type AutomationRuleRecord = {
+  id: string;
+  shop: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  collectionId: string | null;
+  collectionTitle: string | null;
+  onlyEmptyDescription: boolean;
+  voiceId: string;
+  format: string;
+  keywords: string | null;
+  publish: boolean;
+  createdAt: Date;
+};
+
+type AutomationRunRecord = {
+  id: string;
+  ruleId: string;
+  shop: string;
+  productId: string;
+  productTitle: string;
+  trigger: "create" | "update";
+  status: AutomationRunStatus;
+  message: string | null;
+  historyId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// The part of the REST product payload the webhooks read
+export type ProductWebhookPayload = {
+  id: number;
+  admin_graphql_api_id?: string;
+  title?: string;
+  body_html?: string | null;
+};
+
+const TRIGGERS: AutomationTrigger[] = ["create", "update", "both"];
+const RUN_COOLDOWN_SECONDS = 60 * 60;
+const RUN_LOG_SIZE = 20;
+const POLL_INTERVAL_MS = 30_000;
+// Runs left "running" this long were cut off by a restart
+const STALE_RUN_MS = 10 * 60_000;
+
+const claimKey = (shop: string, ruleId: string, productId: string) =>
+  `deepseek:automation:claim:${shop}:${ruleId}:${productId}`;
+
+function toRun(record: AutomationRunRecord): AutomationRun {
+  return {
+    id: record.id,
+    productId: record.productId,
+    productTitle: record.productTitle,
+    trigger: record.trigger,
+    status: record.status,
+    message: record.message ?? undefined,
+    historyId: record.historyId ?? undefined,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+function toRule(record: AutomationRuleRecord & { runs?: AutomationRunRecord[] }): AutomationRule {
+  return {
+    id: record.id,
+    name: record.name,
+    enabled: record.enabled,
+    trigger: record.trigger,
+    collectionId: record.collectionId ?? undefined,
+    collectionTitle: record.collectionTitle ?? undefined,
+    onlyEmptyDescription: record.onlyEmptyDescription,
+    voiceId: record.voiceId,
+    format: record.format,
+    keywords: record.keywords ?? undefined,
+    publish: record.publish,
+    runs: (record.runs ?? []).map(toRun),
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+function toData(input: AutomationRuleInput) {
+  return {
+    name: input.name,
+    enabled: input.enabled,
+    trigger: input.trigger,
+    collectionId: input.collectionId || null,
+    collectionTitle: input.collectionId ? input.collectionTitle || null : null,
+    onlyEmptyDescription: input.onlyEmptyDescription,
+    voiceId: input.voiceId,
+    format: input.format,
+    keywords: input.keywords || null,
+    publish: input.publish,
+  };
+}
+
+export function parseRuleForm(formData: FormData): AutomationRuleInput {
+  const trigger = String(formData.get("trigger") || "create") as AutomationTrigger;
+  return {
+    name: String(formData.get("name") || "").trim(),
+    enabled: formData.get("enabled") !== "false",
+    trigger: TRIGGERS.includes(trigger) ? trigger : "create",
+    collectionId: String(formData.get("collectionId") || "") || undefined,
+    collectionTitle: String(formData.get("collectionTitle") || "") || undefined,
+    onlyEmptyDescription: formData.get("onlyEmptyDescription") === "true",
+    voiceId: String(formData.get("voiceId") || ""),
+    format: formData.get("format") === "bullets" ? "bullets" : "paragraph",
+    keywords: String(formData.get("keywords") || "").trim() || undefined,
+    publish: formData.get("publish") === "true",
+  };
+}
+
+/** The shop's rules, each with its latest runs. */
+export async function listRules(shop: string): Promise<AutomationRule[]> {
+  const records: (AutomationRuleRecord & { runs: AutomationRunRecord[] })[] = await prisma.automationRule.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+    include: { runs: { orderBy: { createdAt: "desc" }, take: RUN_LOG_SIZE } },
+  });
+  return records.map(toRule);
+}
+
+export async function createRule(shop: string, input: AutomationRuleInput): Promise<AutomationRule> {
+  const record: AutomationRuleRecord = await prisma.automationRule.create({ data: { shop, ...toData(input) } });
+  return toRule(record);
+}
+
+export async function updateRule(shop: string, id: string, input: AutomationRuleInput): Promise<boolean> {
+  const { count } = await prisma.automationRule.updateMany({ where: { id, shop }, data: toData(input) });
+  return count > 0;
+}
+
+export async function setRuleEnabled(shop: string, id: string, enabled: boolean): Promise<boolean> {
+  const { count } = await prisma.automationRule.updateMany({ where: { id, shop }, data: { enabled } });
+  return count > 0;
+}
+
+export async function deleteRule(shop: string, id: string): Promise<boolean> {
+  // Runs go with the rule (onDelete: Cascade)
+  const { count } = await prisma.automationRule.deleteMany({ where: { id, shop } });
+  return count > 0;
+}
+
+// At most one run per rule and product per cooldown. The database check covers
+// a flushed Redis; SET NX covers create and update webhooks arriving together.
+async function claimRun(shop: string, ruleId: string, productId: string): Promise<boolean> {
+  const recent = await prisma.automationRun.findFirst({
+    where: {
+      ruleId,
+      productId,
+      status: { not: "skipped" },
+      createdAt: { gte: new Date(Date.now() - RUN_COOLDOWN_SECONDS * 1000) },
+    },
+  });
+  if (recent) return false;
+  if (!(await ensureRedis())) return true;
+  try {
+    return (await redis.set(claimKey(shop, ruleId, productId), "1", "EX", RUN_COOLDOWN_SECONDS, "NX")) === "OK";
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Matches the shop's enabled rules against a products/create or products/update
+ * webhook and queues a run for each match. Returns how many runs were queued.
+ */
+export async function handleProductWebhook(
+  shop: string,
+  trigger: "create" | "update",
+  payload: ProductWebhookPayload
+): Promise<number> {
+  const rules: AutomationRuleRecord[] = await prisma.automationRule.findMany({
+    where: { shop, enabled: true, trigger: { in: [trigger, "both"] } },
+  });
+  if (rules.length === 0) return 0;
+
+  const productId = payload.admin_graphql_api_id ?? `gid://shopify/Product/${payload.id}`;
+  // Our own saves come back as products/update; reacting to them is how loops start
+  if (trigger === "update" && (await wasRecentlySavedByApp(shop, productId))) return 0;
+
+  const hasDescription = htmlToText(payload.body_html ?? "") !== "";
+  let admin: AdminClient | null = null;
+  let queued = 0;
+
+  for (const rule of rules) {
+    if (rule.onlyEmptyDescription && hasDescription) continue;
+    if (rule.collectionId) {
+      admin ??= (await unauthenticated.admin(shop)).admin;
+      if (!(await isProductInCollection(admin, productId, rule.collectionId))) continue;
+    }
+
+    const claimed = await claimRun(shop, rule.id, productId);
+    await prisma.automationRun.create({
+      data: {
+        ruleId: rule.id,
+        shop,
+        productId,
+        productTitle: payload.title ?? productId,
+        trigger,
+        status: claimed ? "queued" : "skipped",
+        message: claimed ? null : "Already ran for this product in the last hour",
+      },
+    });
+    if (claimed) queued++;
+  }
+
+  if (queued > 0) void processQueuedRuns();
+  return queued;
+}
+
+async function processRun(run: AutomationRunRecord & { rule: AutomationRuleRecord }) {
+  const { rule } = run;
+  const finish = (status: AutomationRunStatus, data: { message?: string; historyId?: string } = {}) =>
+    prisma.automationRun.update({
+      where: { id: run.id },
+      data: { status, message: data.message ?? null, historyId: data.historyId ?? null },
+    });
+
+  if (!rule.enabled) return finish("skipped", { message: "Rule was disabled" });
+
+  const { admin } = await unauthenticated.admin(run.shop);
+  const product = await fetchProductForGeneration(admin, run.productId);
+  if (!product) return finish("failed", { message: "Product not found" });
+  // The description may have been written since the webhook was queued
+  if (rule.onlyEmptyDescription && htmlToText(product.descriptionHtml ?? "") !== "") {
+    return finish("skipped", { message: "Product already has a description" });
+  }
+
+  const voice = await resolveVoice(run.shop, rule.voiceId);
+  const result = await deepseek.generateDescription({
+    product,
+    voice,
+    format: rule.format,
+    keywords: rule.keywords ?? "",
+    includeSocials: false,
+    shop: run.shop,
+  });
+
+  const entry = await addHistoryEntry(run.shop, {
+    productId: product.id,
+    productTitle: product.title,
+    description: result.description,
+    vibe: voice.name,
+    voiceId: voice.id,
+    format: rule.format,
+    keywords: rule.keywords ?? "",
+    includeSocials: false,
+    seo: result.seo || undefined,
+    guardrail: result.guardrail,
+  });
+
+  if (!rule.publish) return finish("drafted", { historyId: entry.id });
+  if (result.guardrail?.status === "flagged") {
+    return finish("drafted", {
+      message: `Not submitted for review, guardrails flagged it: ${result.guardrail.violations[0].message}`,
+      historyId: entry.id,
+    });
+  }
+
+  await submitDraft(run.shop, { name: `Automation rule "${rule.name}"` }, {
+    productId: product.id,
+    productTitle: product.title,
+    historyId: entry.id,
+    descriptionHtml: result.description,
+    seo: result.seo,
+  });
+  return finish("submitted", { historyId: entry.id });
+}
+
+let busy = false;
+
+/** Works through queued runs, oldest first, for every shop. */
+export async function processQueuedRuns() {
+  if (busy) return;
+  busy = true;
+  try {
+    await prisma.automationRun.updateMany({
+      where: { status: "running", updatedAt: { lt: new Date(Date.now() - STALE_RUN_MS) } },
+      data: { status: "queued" },
+    });
+
+    while (true) {
+      const run: (AutomationRunRecord & { rule: AutomationRuleRecord }) | null =
+        await prisma.automationRun.findFirst({
+          where: { status: "queued" },
+          orderBy: { createdAt: "asc" },
+          include: { rule: true },
+        });
+      if (!run) return;
+
+      // Conditional, so when two instances find the same run only one of them works it
+      const { count } = await prisma.automationRun.updateMany({
+        where: { id: run.id, status: "queued" },
+        data: { status: "running" },
+      });
+      if (count !== 1) continue;
+
+      try {
+        await processRun(run);
+      } catch (err) {
+        if (err instanceof RateLimitError) {
+          // Leave it for the next poll rather than spinning on the limit
+          await prisma.automationRun.update({ where: { id: run.id }, data: { status: "queued" } });
+          return;
+        }
+        await prisma.automationRun.update({
+          where: { id: run.id },
+          data: {
+            status: "failed",
+            message: err instanceof Error ? err.message : String(err),
+          },
+        });
+      }
+    }
+  } catch (err) {
+    console.warn("Automation worker failed:", err instanceof Error ? err.message : err);
+  } finally {
+    busy = false;
+  }
+}
+
+declare global {
+  var automationWorkerTimer: ReturnType<typeof setInterval> | undefined;
+}
+
+// Idempotent like startBulkWorker; picks up runs queued before a restart
+export function startAutomationWorker() {
+  if (global.automationWorkerTimer) return;
+  global.automationWorkerTimer = setInterval(processQueuedRuns, POLL_INTERVAL_MS);
+  global.automationWorkerTimer.unref?.();
+}
@@ -0,0 +1,168 @@
+import { BillingInterval } from "@shopify/shopify-app-remix/server";
+import prisma from "../db.server";
+import type { authenticate } from "../shopify.server";
+
+/**
+ * Billing plans and top-up credits
+ * - Recurring plans (Free / Pro / Agency) set the monthly generation quota.
+ *   Free needs no subscription; Pro and Agency go through the Billing API.
+ * - One-time credit packs add to the allowance of the month they were bought in.
+ * - The active plan is mirrored in Prisma so the quota check (which only has the
+ *   shop, not an admin session) never has to call Shopify.
+ */
+
+export type PlanId = "free" | "pro" | "agency";
+
+export interface Plan {
+  id: PlanId;
+  // Also the Billing API plan name, i.e. what the merchant sees on the charge
+  name: string;
+  price: number;
+  monthlyLimit: number;
+  features: string[];
+}
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  price: number;
+  credits: number;
+}
+
+export interface MonthlyAllowance {
+  plan: Plan;
+  credits: number;
+  limit: number;
+}
+
+type BillingContext = Awaited<ReturnType<typeof authenticate.admin>>["billing"];
+
+type ShopBillingRecord = {
+  shop: string;
+  plan: string;
+  subscriptionId: string | null;
+  updatedAt: Date;
+};
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: "free",
+    name: "Free",
+    price: 0,
+    monthlyLimit: parseInt(process.env.FREE_TIER_LIMIT ?? "150", 10),
+    features: ["All generation features", "Try the app on a few products"],
+  },
+  pro: {
+    id: "pro",
+    name: "Pro",
+    price: 19,
+    monthlyLimit: 1000,
+    features: ["All generation features", "Sized for growing catalogs"],
+  },
+  agency: {
+    id: "agency",
+    name: "Agency",
+    price: 79,
+    monthlyLimit: 5000,
+    features: ["All generation features", "Sized for large catalogs and bulk jobs"],
+  },
+};
+
+export const CREDIT_PACKS: CreditPack[] = [
+  { id: "credits-250", name: "250 extra generations", price: 5, credits: 250 },
+  { id: "credits-1000", name: "1,000 extra generations", price: 15, credits: 1000 },
+];
+
+// Development stores can only approve test charges
+export const BILLING_IS_TEST = process.env.NODE_ENV !== "production" || process.env.BILLING_TEST === "true";
+
+/** Passed to `shopifyApp({ billing })`; keys are the plan / pack names above. */
+export const billingConfig = {
+  [PLANS.pro.name]: {
+    lineItems: [{ amount: PLANS.pro.price, currencyCode: "USD", interval: BillingInterval.Every30Days as const }],
+  },
+  [PLANS.agency.name]: {
+    lineItems: [{ amount: PLANS.agency.price, currencyCode: "USD", interval: BillingInterval.Every30Days as const }],
+  },
+  ...Object.fromEntries(
+    CREDIT_PACKS.map((pack) => [
+      pack.name,
+      { amount: pack.price, currencyCode: "USD", interval: BillingInterval.OneTime as const },
+    ])
+  ),
+};
+
+const currentPeriod = () => new Date().toISOString().slice(0, 7);
+
+function planByName(name: string): Plan | undefined {
+  return Object.values(PLANS).find((plan) => plan.name === name);
+}
+
+export async function getShopPlan(shop: string): Promise<Plan> {
+  const record: ShopBillingRecord | null = await prisma.shopBilling.findUnique({ where: { shop } });
+  return PLANS[(record?.plan ?? "free") as PlanId] ?? PLANS.free;
+}
+
+/** Plan quota plus this month's top-up credits. */
+export async function getMonthlyAllowance(shop: string): Promise<MonthlyAllowance> {
+  const plan = await getShopPlan(shop);
+  const topUps = await prisma.creditTopUp.aggregate({
+    where: { shop, period: currentPeriod() },
+    _sum: { credits: true },
+  });
+  const credits: number = topUps._sum.credits ?? 0;
+  return { plan, credits, limit: plan.monthlyLimit + credits };
+}
+
+export async function setShopPlan(shop: string, planId: PlanId, subscriptionId: string | null = null) {
+  await prisma.shopBilling.upsert({
+    where: { shop },
+    create: { shop, plan: planId, subscriptionId },
+    update: { plan: planId, subscriptionId },
+  });
+}
+
+/**
+ * Reconciles the stored plan and credits with what Shopify reports as active.
+ * Run after the merchant returns from a charge confirmation.
+ */
+export async function syncBilling(shop: string, billing: BillingContext): Promise<MonthlyAllowance> {
+  const { appSubscriptions, oneTimePurchases } = await billing.check({ isTest: BILLING_IS_TEST });
+
+  const active = appSubscriptions.find((sub) => sub.status === "ACTIVE" && planByName(sub.name));
+  const plan = active ? planByName(active.name)! : PLANS.free;
+  await setShopPlan(shop, plan.id, active?.id ?? null);
+
+  // Purchases stay ACTIVE forever; the unique chargeId keeps each pack counted once
+  for (const purchase of oneTimePurchases) {
+    const pack = CREDIT_PACKS.find((p) => p.name === purchase.name);
+    if (!pack || purchase.status !== "ACTIVE") continue;
+    await prisma.creditTopUp.upsert({
+      where: { chargeId: purchase.id },
+      create: { shop, chargeId: purchase.id, credits: pack.credits, period: currentPeriod() },
+      update: {},
+    });
+  }
+
+  return getMonthlyAllowance(shop);
+}
+
+/** Applies an app_subscriptions/update webhook payload. */
+export async function applySubscriptionUpdate(
+  shop: string,
+  subscription: { admin_graphql_api_id: string; name: string; status: string }
+) {
+  const plan = planByName(subscription.name);
+  if (!plan) return;
+
+  if (subscription.status === "ACTIVE") {
+    await setShopPlan(shop, plan.id, subscription.admin_graphql_api_id);
+    return;
+  }
+
+  // Only drop to Free if the subscription that ended is the one on record
+  const record: ShopBillingRecord | null = await prisma.shopBilling.findUnique({ where: { shop } });
+  if (record?.subscriptionId === subscription.admin_graphql_api_id) {
+    await setShopPlan(shop, "free");
+  }
+}
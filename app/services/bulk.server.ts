@@ -0,0 +1,381 @@
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import {
+  deepseek,
+  ensureRedis,
+  redis,
+  MonthlyLimitError,
+  RateLimitError,
+} from "./deepseek.server";
+import { addHistoryEntry } from "./history.server";
+import { submitDraft, type Staff } from "./reviews.server";
+import { resolveVoice } from "./voices.server";
+import {
+  fetchProductForGeneration,
+  resolveBulkProducts,
+  type AdminClient,
+  type ProductSelector,
+} from "./products.server";
+
+/**
+ * Bulk generation jobs
+ * - Jobs and per-item status live in Prisma so progress survives restarts.
+ * - Job ids are queued in Redis (shared connection from deepseek.server.js);
+ *   a per-job lock keeps two app instances from working the same job.
+ * - On boot, and periodically, unfinished jobs without a live lock are re-queued.
+ *   The lock is extended on a heartbeat while a job runs, since one item
+ *   (retries, repair and rewrite turns) can take longer than its TTL.
+ * - With `publish` set, each result is submitted for review as the staff member
+ *   who started the job; nothing is written to products directly.
+ */
+
+export type BulkJobStatus = "queued" | "running" | "paused" | "completed" | "cancelled";
+export type BulkItemStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface BulkJobOptions {
+  selector: ProductSelector;
+  selectorValue?: string;
+  vibe: string;
+  format: string;
+  keywords?: string;
+  includeSocials: boolean;
+  publish: boolean;
+}
+
+type BulkJobRecord = {
+  id: string;
+  shop: string;
+  status: BulkJobStatus;
+  selector: ProductSelector;
+  selectorValue: string | null;
+  vibe: string;
+  format: string;
+  keywords: string | null;
+  includeSocials: boolean;
+  publish: boolean;
+  // JSON Staff
+  createdBy: string | null;
+  total: number;
+  succeeded: number;
+  failed: number;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type BulkItemRecord = {
+  id: string;
+  jobId: string;
+  productId: string;
+  productTitle: string;
+  status: BulkItemStatus;
+  attempts: number;
+  error: string | null;
+  historyId: string | null;
+  updatedAt: Date;
+};
+
+const QUEUE_KEY = "deepseek:bulk:queue";
+const lockKey = (jobId: string) => `deepseek:bulk:lock:${jobId}`;
+
+const POLL_INTERVAL_MS = 2_000;
+const RECOVER_INTERVAL_MS = 60_000;
+const LOCK_TTL_SECONDS = 120;
+const LOCK_HEARTBEAT_MS = 30_000;
+const RATE_LIMIT_BACKOFF_MS = 15_000;
+
+const workerId = `${process.pid}:${Math.random().toString(36).slice(2, 10)}`;
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+async function enqueue(jobId: string) {
+  if (!(await ensureRedis())) return;
+  try {
+    await redis.lrem(QUEUE_KEY, 0, jobId);
+    await redis.lpush(QUEUE_KEY, jobId);
+  } catch (err) {
+    console.warn("Bulk enqueue failed:", err instanceof Error ? err.message : err);
+  }
+}
+
+async function refreshCounts(jobId: string) {
+  const [succeeded, failed] = await Promise.all([
+    prisma.bulkJobItem.count({ where: { jobId, status: "succeeded" } }),
+    prisma.bulkJobItem.count({ where: { jobId, status: "failed" } }),
+  ]);
+  await prisma.bulkJob.update({ where: { id: jobId }, data: { succeeded, failed } });
+}
+
+export async function createBulkJob(
+  admin: AdminClient,
+  shop: string,
+  options: BulkJobOptions,
+  staff: Staff
+): Promise<BulkJobRecord> {
+  const products = await resolveBulkProducts(admin, options.selector, options.selectorValue ?? "");
+  if (products.length === 0) throw new Error("No products matched this selection");
+
+  const job: BulkJobRecord = await prisma.bulkJob.create({
+    data: {
+      shop,
+      selector: options.selector,
+      selectorValue: options.selectorValue || null,
+      vibe: options.vibe,
+      format: options.format,
+      keywords: options.keywords || null,
+      includeSocials: options.includeSocials,
+      publish: options.publish,
+      createdBy: JSON.stringify(staff),
+      total: products.length,
+      items: {
+        create: products.map((p) => ({ productId: p.id, productTitle: p.title })),
+      },
+    },
+  });
+
+  await enqueue(job.id);
+  return job;
+}
+
+export async function listBulkJobs(shop: string): Promise<BulkJobRecord[]> {
+  return prisma.bulkJob.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+}
+
+export async function getBulkJob(shop: string, jobId: string) {
+  const job: (BulkJobRecord & { items: BulkItemRecord[] }) | null = await prisma.bulkJob.findFirst({
+    where: { id: jobId, shop },
+    include: { items: { orderBy: { productTitle: "asc" } } },
+  });
+  return job;
+}
+
+export async function retryFailedItems(shop: string, jobId: string): Promise<number> {
+  const job = await prisma.bulkJob.findFirst({ where: { id: jobId, shop } });
+  if (!job) return 0;
+
+  const { count } = await prisma.bulkJobItem.updateMany({
+    where: { jobId, status: "failed" },
+    data: { status: "pending", error: null, attempts: 0 },
+  });
+
+  // A paused job (monthly limit) also resumes with whatever is still pending
+  if (count > 0 || job.status === "paused") {
+    await prisma.bulkJob.update({ where: { id: jobId }, data: { status: "queued", error: null } });
+    await refreshCounts(jobId);
+    await enqueue(jobId);
+  }
+  return count;
+}
+
+export async function cancelBulkJob(shop: string, jobId: string): Promise<boolean> {
+  const { count } = await prisma.bulkJob.updateMany({
+    where: { id: jobId, shop, status: { in: ["queued", "running", "paused"] } },
+    data: { status: "cancelled" },
+  });
+  return count > 0;
+}
+
+async function acquireLock(jobId: string): Promise<boolean> {
+  const ok = await redis.set(lockKey(jobId), workerId, "EX", LOCK_TTL_SECONDS, "NX");
+  return ok === "OK";
+}
+
+async function extendLock(jobId: string) {
+  try {
+    if ((await redis.get(lockKey(jobId))) === workerId) await redis.expire(lockKey(jobId), LOCK_TTL_SECONDS);
+  } catch (err) {
+    console.warn("Bulk lock heartbeat failed:", err instanceof Error ? err.message : err);
+  }
+}
+
+async function releaseLock(jobId: string) {
+  try {
+    if ((await redis.get(lockKey(jobId))) === workerId) await redis.del(lockKey(jobId));
+  } catch {
+    // the lock expires on its own
+  }
+}
+
+// Jobs from before createdBy existed submit under the job itself
+function jobStaff(job: BulkJobRecord): Staff {
+  try {
+    if (job.createdBy) return JSON.parse(job.createdBy);
+  } catch {
+    // fall through
+  }
+  return { name: "Bulk job" };
+}
+
+async function processItem(job: BulkJobRecord, item: BulkItemRecord, admin: AdminClient) {
+  await prisma.bulkJobItem.update({
+    where: { id: item.id },
+    data: { status: "running", attempts: { increment: 1 } },
+  });
+
+  const product = await fetchProductForGeneration(admin, item.productId);
+  if (!product) throw new Error("Product not found");
+
+  // job.vibe holds the voice id chosen when the job was created
+  const voice = await resolveVoice(job.shop, job.vibe);
+  const result = await deepseek.generateDescription({
+    product,
+    voice,
+    format: job.format,
+    keywords: job.keywords ?? "",
+    includeSocials: job.includeSocials,
+    shop: job.shop,
+  });
+
+  const entry = await addHistoryEntry(job.shop, {
+    productId: product.id,
+    productTitle: product.title,
+    description: result.description,
+    vibe: voice.name,
+    voiceId: voice.id,
+    format: job.format,
+    keywords: job.keywords ?? "",
+    includeSocials: job.includeSocials,
+    socials: result.socials || undefined,
+    seo: result.seo || undefined,
+    guardrail: result.guardrail,
+  });
+
+  // Flagged output stays in history instead of reaching the review queue
+  if (job.publish && result.guardrail?.status === "flagged") {
+    throw new Error(`Not submitted for review, guardrails flagged it: ${result.guardrail.violations[0].message}`);
+  }
+
+  if (job.publish) {
+    await submitDraft(job.shop, jobStaff(job), {
+      productId: product.id,
+      productTitle: product.title,
+      historyId: entry.id,
+      descriptionHtml: result.description,
+      seo: result.seo,
+    });
+  }
+
+  await prisma.bulkJobItem.update({
+    where: { id: item.id },
+    data: { status: "succeeded", error: null, historyId: entry.id },
+  });
+}
+
+async function runJob(jobId: string) {
+  let job: BulkJobRecord | null = await prisma.bulkJob.findUnique({ where: { id: jobId } });
+  if (!job || !["queued", "running"].includes(job.status)) return;
+
+  await prisma.bulkJob.update({ where: { id: jobId }, data: { status: "running" } });
+
+  // No offline session (e.g. the app was reinstalled); paused so Resume can try again
+  let admin: AdminClient;
+  try {
+    ({ admin } = await unauthenticated.admin(job.shop));
+  } catch (err) {
+    await prisma.bulkJob.update({
+      where: { id: jobId },
+      data: {
+        status: "paused",
+        error: `Could not reach the store: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    });
+    return;
+  }
+
+  // Items left "running" by a crashed worker are picked up again
+  await prisma.bulkJobItem.updateMany({ where: { jobId, status: "running" }, data: { status: "pending" } });
+
+  while (true) {
+    job = await prisma.bulkJob.findUnique({ where: { id: jobId } });
+    if (!job || job.status !== "running") return;
+
+    const item: BulkItemRecord | null = await prisma.bulkJobItem.findFirst({
+      where: { jobId, status: "pending" },
+    });
+    if (!item) break;
+
+    try {
+      await processItem(job, item, admin);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        await prisma.bulkJobItem.update({
+          where: { id: item.id },
+          data: { status: "pending", attempts: { decrement: 1 } },
+        });
+        await sleep(RATE_LIMIT_BACKOFF_MS);
+      } else if (err instanceof MonthlyLimitError) {
+        await prisma.bulkJobItem.update({
+          where: { id: item.id },
+          data: { status: "pending", attempts: { decrement: 1 } },
+        });
+        await prisma.bulkJob.update({ where: { id: jobId }, data: { status: "paused", error: err.message } });
+        return;
+      } else {
+        await prisma.bulkJobItem.update({
+          where: { id: item.id },
+          data: { status: "failed", error: err instanceof Error ? err.message : String(err) },
+        });
+      }
+    }
+
+    await refreshCounts(jobId);
+  }
+
+  await refreshCounts(jobId);
+  await prisma.bulkJob.update({ where: { id: jobId }, data: { status: "completed", error: null } });
+}
+
+async function recoverJobs() {
+  const unfinished: { id: string }[] = await prisma.bulkJob.findMany({
+    where: { status: { in: ["queued", "running"] } },
+    select: { id: true },
+  });
+  for (const { id } of unfinished) {
+    if (!(await redis.exists(lockKey(id)))) await enqueue(id);
+  }
+}
+
+let busy = false;
+let lastRecover = 0;
+
+async function tick() {
+  if (busy) return;
+  busy = true;
+  try {
+    if (!(await ensureRedis())) return;
+
+    if (Date.now() - lastRecover > RECOVER_INTERVAL_MS) {
+      lastRecover = Date.now();
+      await recoverJobs();
+    }
+
+    const jobId = await redis.rpop(QUEUE_KEY);
+    if (!jobId || !(await acquireLock(jobId))) return;
+
+    const heartbeat = setInterval(() => void extendLock(jobId), LOCK_HEARTBEAT_MS);
+    try {
+      await runJob(jobId);
+    } finally {
+      clearInterval(heartbeat);
+      await releaseLock(jobId);
+    }
+  } catch (err) {
+    console.warn("Bulk worker tick failed:", err instanceof Error ? err.message : err);
+  } finally {
+    busy = false;
+  }
+}
+
+declare global {
+  var bulkWorkerTimer: ReturnType<typeof setInterval> | undefined;
+}
+
+// Idempotent: dev reloads re-import this module but must not start a second loop
+export function startBulkWorker() {
+  if (global.bulkWorkerTimer) return;
+  global.bulkWorkerTimer = setInterval(tick, POLL_INTERVAL_MS);
+  global.bulkWorkerTimer.unref?.();
+}
@@ -0,0 +1,267 @@
+import { getHistory, type HistoryEntry } from "./history.server";
+import { listAllDrafts, submitDraft, type Staff } from "./reviews.server";
+import { fetchProductsForCsv, type AdminClient, type CsvProduct } from "./products.server";
+import { MAX_IMPORT_ROWS, parseCsv, toCsv } from "../utils/csv";
+import { sanitizeHTML, sanitizeWithReport } from "../utils/sanitize.server";
+import { SEO_DESCRIPTION_LIMIT, SEO_TITLE_LIMIT, type SeoFields } from "../utils/seo";
+
+/**
+ * CSV export and import
+ * - Columns follow Shopify's product CSV (Handle, Title, Body (HTML), SEO
+ *   Title, SEO Description), so a file can go through a spreadsheet, an agency
+ *   or Shopify's own importer. Our extra columns come last.
+ * - Import matches rows by handle or product ID, sanitizes the HTML and is
+ *   previewed before anything is written. Applying submits each row as a draft
+ *   for review; nothing reaches a product until it is approved and published.
+ */
+
+export type ExportSource = "history" | "drafts";
+
+const COLUMNS = {
+  handle: "Handle",
+  title: "Title",
+  body: "Body (HTML)",
+  seoTitle: "SEO Title",
+  seoDescription: "SEO Description",
+  productId: "Product ID",
+  source: "Source",
+  createdAt: "Created At",
+} as const;
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+// Most recent history entries included in an export
+const MAX_EXPORT_ROWS = 2000;
+
+const PRODUCT_GID_PREFIX = "gid://shopify/Product/";
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/\d+$/;
+
+type ExportRow = {
+  productId: string;
+  productTitle: string;
+  descriptionHtml: string;
+  seo?: SeoFields;
+  source: string;
+  createdAt: string;
+};
+
+async function recentHistory(shop: string): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+  let after: string | null = null;
+  do {
+    const page = await getHistory(shop, { after });
+    entries.push(...page.entries);
+    after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (after && entries.length < MAX_EXPORT_ROWS);
+  return entries.slice(0, MAX_EXPORT_ROWS);
+}
+
+export async function exportCsv(admin: AdminClient, shop: string, source: ExportSource): Promise<string> {
+  const rows: ExportRow[] =
+    source === "history"
+      ? (await recentHistory(shop)).map((entry) => ({
+          productId: entry.productId,
+          productTitle: entry.productTitle,
+          descriptionHtml: entry.description,
+          seo: entry.seo,
+          source: entry.candidateStyle ? `generation (${entry.candidateStyle})` : "generation",
+          createdAt: entry.createdAt,
+        }))
+      : (await listAllDrafts(shop)).map((draft) => ({
+          productId: draft.productId,
+          productTitle: draft.productTitle,
+          descriptionHtml: draft.descriptionHtml,
+          seo: draft.seo,
+          source: draft.publishedAt ? "draft (published)" : `draft (${draft.status})`,
+          createdAt: draft.createdAt,
+        }));
+
+  // Deleted products keep their ID column, so the row can still be matched elsewhere
+  const products = await fetchProductsForCsv(admin, { ids: rows.map((row) => row.productId) });
+  const handles = new Map(products.map((product) => [product.id, product.handle]));
+
+  return toCsv([
+    Object.values(COLUMNS),
+    ...rows.map((row) => [
+      handles.get(row.productId) ?? "",
+      row.productTitle,
+      row.descriptionHtml,
+      row.seo?.title ?? "",
+      row.seo?.description ?? "",
+      row.productId,
+      row.source,
+      row.createdAt,
+    ]),
+  ]);
+}
+
+export type ImportRowStatus = "changed" | "unchanged" | "error";
+
+export interface ImportRow {
+  // Line in the file, counting the header as 1
+  line: number;
+  // The handle or ID as written in the file
+  ref: string;
+  productId?: string;
+  productTitle?: string;
+  currentHtml?: string;
+  descriptionHtml: string;
+  seo?: SeoFields | null;
+  // Markup the sanitizer dropped, e.g. ["<script>"]
+  removed: string[];
+  status: ImportRowStatus;
+  message?: string;
+}
+
+export interface ImportChange {
+  productId: string;
+  descriptionHtml: string;
+  seo?: SeoFields | null;
+}
+
+function toProductGid(value: string): string {
+  return /^\d+$/.test(value) ? `${PRODUCT_GID_PREFIX}${value}` : value;
+}
+
+/**
+ * Parses an uploaded CSV and matches each row to a product, without writing
+ * anything. Throws with a merchant-facing message when the file is unusable.
+ */
+export async function previewImport(admin: AdminClient, text: string): Promise<ImportRow[]> {
+  if (text.length > MAX_IMPORT_BYTES) throw new Error("The file is larger than 5 MB");
+
+  const [header, ...lines] = parseCsv(text);
+  const columnIndex = (name: string) =>
+    (header ?? []).findIndex((column) => column.trim().toLowerCase() === name.toLowerCase());
+  const col = {
+    handle: columnIndex(COLUMNS.handle),
+    body: columnIndex(COLUMNS.body),
+    seoTitle: columnIndex(COLUMNS.seoTitle),
+    seoDescription: columnIndex(COLUMNS.seoDescription),
+    productId: columnIndex(COLUMNS.productId),
+  };
+
+  if (col.body < 0 || (col.handle < 0 && col.productId < 0)) {
+    throw new Error(`The file needs a "${COLUMNS.body}" column and a "${COLUMNS.handle}" or "${COLUMNS.productId}" column`);
+  }
+
+  const cell = (fields: string[], index: number) => (index >= 0 ? (fields[index] ?? "").trim() : "");
+
+  // Shopify's own export repeats the handle on variant and image rows with an empty body
+  const rows = lines
+    .map((fields, i) => ({ fields, line: i + 2 }))
+    .filter(({ fields }) => cell(fields, col.body));
+  if (rows.length === 0) throw new Error("The file has no rows with a description");
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`The file has ${rows.length} descriptions; import at most ${MAX_IMPORT_ROWS} at a time`);
+  }
+
+  const refs = rows.map(({ fields }) => ({
+    id: cell(fields, col.productId) ? toProductGid(cell(fields, col.productId)) : "",
+    handle: cell(fields, col.handle),
+  }));
+  const products = await fetchProductsForCsv(admin, {
+    ids: refs.map((ref) => ref.id).filter((id) => PRODUCT_GID.test(id)),
+    // Only rows without an ID are matched by handle
+    handles: refs.filter((ref) => !ref.id && ref.handle).map((ref) => ref.handle),
+  });
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const byHandle = new Map(products.map((product) => [product.handle, product]));
+
+  const seen = new Set<string>();
+  return rows.map(({ fields, line }, i): ImportRow => {
+    const ref = refs[i];
+    const { html, removed } = sanitizeWithReport(cell(fields, col.body));
+    const seoTitle = cell(fields, col.seoTitle);
+    const seoDescription = cell(fields, col.seoDescription);
+    // Empty SEO columns leave the product's SEO alone
+    const seo = seoTitle || seoDescription ? { title: seoTitle, description: seoDescription } : null;
+    const base = { line, ref: ref.id || ref.handle, descriptionHtml: html, seo, removed };
+
+    const product: CsvProduct | undefined = ref.id ? byId.get(ref.id) : byHandle.get(ref.handle);
+    if (!product) return { ...base, status: "error", message: "No product with this handle or ID" };
+
+    const matched = {
+      ...base,
+      productId: product.id,
+      productTitle: product.title,
+      // Sanitized for the preview diff only
+      currentHtml: sanitizeHTML(product.descriptionHtml ?? ""),
+    };
+    if (seen.has(product.id)) return { ...matched, status: "error", message: "Product already appears on an earlier row" };
+    seen.add(product.id);
+
+    if (seo && (seo.title.length > SEO_TITLE_LIMIT || seo.description.length > SEO_DESCRIPTION_LIMIT)) {
+      return {
+        ...matched,
+        status: "error",
+        message: `SEO title must be at most ${SEO_TITLE_LIMIT} characters and meta description at most ${SEO_DESCRIPTION_LIMIT}`,
+      };
+    }
+
+    const unchanged =
+      html === (product.descriptionHtml ?? "").trim() &&
+      (!seo || (seo.title === (product.seo.title ?? "") && seo.description === (product.seo.description ?? "")));
+    return { ...matched, status: unchanged ? "unchanged" : "changed" };
+  });
+}
+
+// Checks a change as it came back from the browser; returns why it is unusable
+function invalidChange(change: unknown): string | null {
+  if (!change || typeof change !== "object") return "Invalid row";
+  const { productId, descriptionHtml, seo } = change as Record<string, unknown>;
+  if (typeof productId !== "string" || !PRODUCT_GID.test(productId)) return "Invalid product ID";
+  if (typeof descriptionHtml !== "string" || !descriptionHtml.trim()) return "Missing description";
+  if (seo === undefined || seo === null) return null;
+  if (typeof seo !== "object") return "Invalid SEO fields";
+
+  const { title, description } = seo as Record<string, unknown>;
+  if (typeof title !== "string" || typeof description !== "string") return "Invalid SEO fields";
+  if (title.trim().length > SEO_TITLE_LIMIT || description.trim().length > SEO_DESCRIPTION_LIMIT) {
+    return `SEO title must be at most ${SEO_TITLE_LIMIT} characters and meta description at most ${SEO_DESCRIPTION_LIMIT}`;
+  }
+  return null;
+}
+
+/**
+ * Submits previewed changes as drafts for review. Rows come back from the
+ * browser, so each is validated again and its HTML re-sanitized, and the
+ * product must exist in this shop.
+ */
+export async function applyImport(admin: AdminClient, shop: string, staff: Staff, changes: unknown[]) {
+  let submitted = 0;
+  const failed: { productId: string; message: string }[] = [];
+
+  const valid: ImportChange[] = [];
+  for (const change of changes.slice(0, MAX_IMPORT_ROWS)) {
+    const message = invalidChange(change);
+    if (message) failed.push({ productId: String((change as ImportChange | null)?.productId ?? ""), message });
+    else valid.push(change as ImportChange);
+  }
+
+  const products = await fetchProductsForCsv(admin, { ids: valid.map((change) => change.productId) });
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const seen = new Set<string>();
+
+  for (const change of valid) {
+    const product = byId.get(change.productId);
+    if (!product) {
+      failed.push({ productId: change.productId, message: "Product not found" });
+      continue;
+    }
+    if (seen.has(product.id)) {
+      failed.push({ productId: change.productId, message: "Product appears more than once" });
+      continue;
+    }
+    seen.add(product.id);
+
+    await submitDraft(shop, staff, {
+      productId: product.id,
+      productTitle: product.title,
+      descriptionHtml: sanitizeHTML(change.descriptionHtml),
+      seo: change.seo ? { title: change.seo.title.trim(), description: change.seo.description.trim() } : null,
+    });
+    submitted++;
+  }
+
+  return { submitted, failed };
+}
@@ -2,19 +2,65 @@
 import crypto from "crypto";
 import Redis from "ioredis";
 import { sanitizeHTML } from "../utils/sanitize.server"; 
+import { createProvider } from "./llm-providers.server";
+import { getMonthlyAllowance, PLANS } from "./billing.server";
+import { countMonthlyUsage, recordUsage } from "./usage.server";
+import { buildProductBrief } from "./product-brief.server";
+import {
+  buildGuardrailPrompt,
+  checkGuardrails,
+  getGuardrailPolicy,
+  isPolicyActive,
+  MAX_GUARDRAIL_RETRIES,
+  policyKey,
+} from "./guardrails.server";
+import { normalizeSeo, SEO_DESCRIPTION_LIMIT, SEO_TITLE_LIMIT } from "../utils/seo";
+import { ALT_TEXT_LIMIT, filenameHint } from "../utils/alt-text";
+import { analyzeDescription } from "../utils/content-score";
+import {
+  AIValidationError,
+  altTextSchema,
+  buildRepairPrompt,
+  descriptionSchema,
+  translationSchema,
+} from "./output-schema.server";
+
+export { AIValidationError };
 
 /**
  * DeepSeekService
- * - Uses DeepSeek HTTP endpoint (OpenAI-compatible).
- * - Optional Redis caching (lazy connect).
- * - Per-shop rate limits and monthly usage tracking.
+ * - Talks to a pluggable LLM provider (DeepSeek by default, see llm-providers.server.js).
+ * - Optional Redis caching (lazy connect), keyed on the product's content and
+ *   evicted per product by the products/update and products/delete webhooks.
+ * - Per-shop rate limits and monthly usage tracking. Every call is written to the
+ *   usage ledger (usage.server.ts); the Redis usage counter only caches its count.
+ * - Descriptions are checked against the shop's guardrail policy before they are
+ *   returned (guardrails.server.ts) and carry the outcome as `guardrail`.
+ * - Generated descriptions also carry their SEO/readability `score`
+ *   (utils/content-score.ts); with `minScore` a low scorer is sent back once
+ *   and the higher-scoring of the two is returned.
  */
 
 const REDIS_URL = process.env.REDIS_URL ?? "redis://localhost:6379";
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY;
-const DEEPSEEK_BASE = process.env.DEEPSEEK_BASE_URL ?? "https://api.deepseek.com";
 const RATE_LIMIT_PER_MIN = parseInt(process.env.MAX_REQUESTS_PER_MINUTE ?? "30", 10);
-const MONTHLY_LIMIT = parseInt(process.env.FREE_TIER_LIMIT ?? "150", 10);
+const DEFAULT_TONE = "Bold. Punchy. Minimal fluff.";
+// Score-driven rewrites per description; each one costs a full completion
+const MAX_SCORE_RETRIES = 1;
+
+/** @typedef {import("./voices.server").Voice} Voice */
+
+/**
+ * Candidate styles, in the order candidates are requested. Each differs in
+ * temperature and opening angle so N candidates are N genuinely different drafts.
+ * @typedef {{ id: string, label: string, temperature: number, angle: string | null }} CandidateStyle
+ * @type {CandidateStyle[]}
+ */
+export const CANDIDATE_STYLES = [
+  { id: "balanced", label: "Balanced", temperature: 0.7, angle: null },
+  { id: "benefit", label: "Benefit-led", temperature: 0.9, angle: "Open with the main benefit to the customer." },
+  { id: "scenario", label: "Scenario", temperature: 1.0, angle: "Open with a short scene of the product in use." },
+  { id: "specs", label: "Spec-led", temperature: 0.5, angle: "Open with the most concrete material or spec detail." },
+];
 
 const redis = new Redis(REDIS_URL, {
   maxRetriesPerRequest: 1,
@@ -25,30 +71,52 @@ const redis = new Redis(REDIS_URL, {
 
 // Do NOT call redis.connect() during module load — keep optional.
 // We'll attempt to connect lazily when we first need Redis.
+export async function ensureRedis() {
+  if (redis.status === "ready") return true;
+  try {
+    await redis.connect();
+    return true;
+  } catch (err) {
+    console.warn("Redis unavailable:", err?.message ?? err);
+    return false;
+  }
+}
 
-const sha1 = (s) => crypto.createHash("sha1").update(String(s)).digest("hex").slice(0, 12);
-const sleep = (ms) => new Promise((res) => setTimeout(res, ms));
+// Shared with the bulk worker so the app holds a single Redis connection
+export { redis };
 
-function normalizeMetafields(product) {
-  try {
-    if (!product) return [];
-    if (Array.isArray(product.metafields)) return product.metafields;
-    const edges = product.metafields?.edges;
-    if (Array.isArray(edges)) {
-      return edges.map((e) => {
-        const node = e.node ?? e;
-        if (typeof node.value === "string") return `${node.key}: ${node.value}`;
-        return `${node.key}: ${JSON.stringify(node.value)}`;
-      });
-    }
-  } catch (e) {
-    // ignore
+export class RateLimitError extends Error {
+  constructor(message = "Rate limit exceeded. Try again shortly.") {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+export class MonthlyLimitError extends Error {
+  // `requested` is how many generations were asked for at once (candidates)
+  constructor(used, limit, requested = 1) {
+    super(
+      used < limit
+        ? `${requested} generations would go over the monthly limit: ${used}/${limit} used. Ask for fewer, upgrade your plan or buy extra credits on the Billing page.`
+        : `Monthly limit reached: ${used}/${limit}. Upgrade your plan or buy extra credits on the Billing page.`
+    );
+    this.name = "MonthlyLimitError";
+    this.used = used;
+    this.limit = limit;
   }
-  return [];
 }
 
-function buildCacheKey({ productId, vibe, format, keywords, includeSocials }) {
-  const small = sha1(`${productId}|${vibe}|${format}|${keywords ?? ""}|${includeSocials}`);
+const sha1 = (s) => crypto.createHash("sha1").update(String(s)).digest("hex").slice(0, 12);
+const sleep = (ms) => new Promise((res) => setTimeout(res, ms));
+
+// Any edit to the fetched product (title, metafields, old description, prices) changes this
+const contentHash = (product) => sha1(JSON.stringify(product ?? null));
+
+function buildCacheKey({ product, voice, format, keywords, includeSocials, language, style, policy, minScore, model }) {
+  // Hash the whole voice so editing a profile invalidates its cached outputs
+  const small = sha1(
+    `${product?.id ?? "unknown"}|${contentHash(product)}|${sha1(JSON.stringify(voice ?? null))}|${format}|${keywords ?? ""}|${includeSocials}|${language ?? ""}|${style?.id ?? ""}|${policy ?? ""}|${minScore || ""}|${model}`
+  );
   return `deepseek:cache:${small}`;
 }
 
@@ -56,6 +124,28 @@ function usageKey(shop) {
   return `deepseek:usage:${shop}:${new Date().toISOString().slice(0, 7)}`;
 }
 
+// Seconds until the start of next month, plus a day of slack
+function usageTtl() {
+  const now = new Date();
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 2);
+  return Math.floor((next - now.getTime()) / 1000);
+}
+
+// Per-shop monthly hash of failure counts, split by kind ("http" | "validation")
+function failuresKey(shop) {
+  return `deepseek:failures:${shop}:${new Date().toISOString().slice(0, 7)}`;
+}
+
+// Cache keys are content hashes, so each shop's are indexed here for purging
+function cacheIndexKey(shop) {
+  return `deepseek:cachekeys:${shop}`;
+}
+
+// Per-product index of the same keys, so a products/update webhook can evict them
+function productCacheIndexKey(shop, productId) {
+  return `deepseek:productcache:${shop}:${productId}`;
+}
+
 function rateLimitKey(shop) {
   return `deepseek:ratelimit:${shop}`;
 }
@@ -104,22 +194,16 @@ function extractJsonFromText(text) {
 
 export class DeepSeekService {
   constructor(opts = {}) {
-    this.baseUrl = opts.baseUrl ?? DEEPSEEK_BASE;
-    this.apiKey = opts.apiKey ?? DEEPSEEK_API_KEY;
-    this.model = opts.model ?? "deepseek-chat";
+    this.provider =
+      opts.provider ??
+      createProvider(opts.providerName, { baseUrl: opts.baseUrl, apiKey: opts.apiKey, model: opts.model });
     this.maxRetries = opts.maxRetries ?? 3;
+    this.maxRepairs = opts.maxRepairs ?? 2;
     this.timeout = opts.timeout ?? 25_000;
   }
 
   async _ensureRedis() {
-    if (redis.status === "ready") return true;
-    try {
-      await redis.connect();
-      return true;
-    } catch (err) {
-      console.warn("Redis unavailable:", err?.message ?? err);
-      return false;
-    }
+    return ensureRedis();
   }
 
   async checkRateLimit(shop) {
@@ -138,46 +222,332 @@ export class DeepSeekService {
     }
   }
 
+  // The limit is the shop's plan quota plus any top-up credits bought this month
   async checkMonthlyLimit(shop) {
-    if (!shop) return { allowed: true, used: 0, limit: MONTHLY_LIMIT };
-    if (!(await this._ensureRedis())) return { allowed: true, used: 0, limit: MONTHLY_LIMIT };
+    if (!shop) return { allowed: true, used: 0, limit: PLANS.free.monthlyLimit };
 
+    let limit = PLANS.free.monthlyLimit;
     try {
-      const key = usageKey(shop);
-      const used = parseInt((await redis.get(key)) ?? "0", 10);
-      if (used >= MONTHLY_LIMIT) return { allowed: false, used, limit: MONTHLY_LIMIT };
-      return { allowed: true, used, limit: MONTHLY_LIMIT };
+      ({ limit } = await getMonthlyAllowance(shop));
+    } catch (err) {
+      console.warn("Plan lookup failed:", err?.message ?? err);
+    }
+
+    try {
+      const used = await this.getMonthlyUsage(shop);
+      return { allowed: used < limit, used, limit };
     } catch (err) {
       console.warn("Monthly usage check failed:", err?.message ?? err);
-      return { allowed: true, used: 0, limit: MONTHLY_LIMIT };
+      return { allowed: true, used: 0, limit };
     }
   }
 
-  async incrementUsage(shop, increment = 1) {
+  // Cached ledger count; a flushed or unreachable Redis falls back to the database
+  async getMonthlyUsage(shop) {
+    if (!(await this._ensureRedis())) return countMonthlyUsage(shop);
+
+    const key = usageKey(shop);
+    const cached = await redis.get(key).catch(() => null);
+    if (cached !== null) return parseInt(cached, 10);
+
+    const used = await countMonthlyUsage(shop);
+    try {
+      await redis.set(key, String(used), "EX", usageTtl(), "NX");
+    } catch (e) {}
+    return used;
+  }
+
+  /**
+   * Writes one AI call to the ledger and, for successful calls, bumps the cached
+   * counter (only if it is already seeded, so it never drifts below the ledger).
+   * @param {string | null} shop
+   * @param {import("./usage.server").UsageEventInput} event
+   */
+  async recordUsage(shop, event) {
     if (!shop) return;
-    if (!(await this._ensureRedis())) return;
+    try {
+      await recordUsage(shop, event);
+    } catch (err) {
+      console.warn("recordUsage failed:", err?.message ?? err);
+    }
+    if (event.status !== "success" || !(await this._ensureRedis())) return;
     try {
       const key = usageKey(shop);
-      await redis.incrby(key, increment);
-      const now = new Date();
-      const next = new Date(now.getFullYear(), now.getMonth() + 2, 1);
-      const ttl = Math.floor((next.getTime() - now.getTime()) / 1000);
-      await redis.expire(key, ttl);
+      if (await redis.exists(key)) await redis.incr(key);
+    } catch (err) {
+      console.warn("Usage cache update failed:", err?.message ?? err);
+    }
+  }
+
+  /**
+   * Deletes every Redis key held for the shop: cached outputs, usage, failure
+   * and rate-limit counters, and automation markers. Returns how many keys were removed.
+   * @param {string} shop
+   */
+  async purgeShop(shop) {
+    if (!(await this._ensureRedis())) return 0;
+
+    const keys = [...(await redis.smembers(cacheIndexKey(shop))), cacheIndexKey(shop), rateLimitKey(shop)];
+    const patterns = [
+      `deepseek:usage:${shop}:*`,
+      `deepseek:failures:${shop}:*`,
+      `deepseek:productcache:${shop}:*`,
+      `deepseek:appwrite:${shop}:*`,
+      `deepseek:automation:claim:${shop}:*`,
+    ];
+    for (const pattern of patterns) {
+      let cursor = "0";
+      do {
+        const [next, batch] = await redis.scan(cursor, "MATCH", pattern, "COUNT", 100);
+        keys.push(...batch);
+        cursor = next;
+      } while (cursor !== "0");
+    }
+    return redis.del(...keys);
+  }
+
+  /**
+   * Drops every cached output for one product (descriptions, refinements,
+   * translations, alt text). Returns how many cache entries were removed.
+   * @param {string} shop
+   * @param {string} productId
+   */
+  async evictProduct(shop, productId) {
+    if (!(await this._ensureRedis())) return 0;
+
+    const indexKey = productCacheIndexKey(shop, productId);
+    const keys = await redis.smembers(indexKey);
+    if (keys.length === 0) return 0;
+    const removed = await redis.del(...keys);
+    await redis.del(indexKey);
+    await redis.srem(cacheIndexKey(shop), ...keys);
+    return removed;
+  }
+
+  async recordFailure(shop, kind) {
+    if (!shop) return;
+    if (!(await this._ensureRedis())) return;
+    try {
+      const key = failuresKey(shop);
+      await redis.hincrby(key, kind, 1);
+      await redis.expire(key, 60 * 60 * 24 * 62);
     } catch (err) {
-      console.warn("incrementUsage failed:", err?.message ?? err);
+      console.warn("recordFailure failed:", err?.message ?? err);
+    }
+  }
+
+  async getFailureCounts(shop) {
+    const empty = { http: 0, validation: 0, guardrail: 0 };
+    if (!shop || !(await this._ensureRedis())) return empty;
+    try {
+      const counts = await redis.hgetall(failuresKey(shop));
+      return {
+        http: parseInt(counts.http ?? "0", 10),
+        validation: parseInt(counts.validation ?? "0", 10),
+        guardrail: parseInt(counts.guardrail ?? "0", 10),
+      };
+    } catch {
+      return empty;
     }
   }
 
-  async generateDescription({ product, vibe = "edgy", format = "paragraph", keywords = "", includeSocials = false, shop = null } = {}) {
+  /**
+   * `bypassCache` skips reading a cached result; the fresh one still replaces it.
+   * `minScore` (0-100) asks for one rewrite when the content score comes in below it.
+   * @param {{ product?: import("./products.server").GenerationProduct | null, voice?: Voice | null, format?: string, keywords?: string, includeSocials?: boolean, language?: string | null, style?: CandidateStyle | null, bypassCache?: boolean, minScore?: number, shop?: string | null }} [opts]
+   */
+  async generateDescription({ product, voice = null, format = "paragraph", keywords = "", includeSocials = false, language = null, style = null, bypassCache = false, minScore = 0, shop = null } = {}) {
+    const guardrails = await this._guardrailsFor(shop, format);
+    const cacheKey = buildCacheKey({
+      product,
+      voice,
+      format,
+      keywords,
+      includeSocials,
+      language,
+      style,
+      policy: guardrails ? policyKey(guardrails.policy) : null,
+      minScore,
+      model: `${this.provider.name}:${this.provider.model}`,
+    });
+    const prompt = this.buildPrompt({ product, voice, format, keywords, includeSocials, language, angle: style?.angle });
+    return this._runPrompt({
+      prompt,
+      cacheKey,
+      schema: descriptionSchema({ format, includeSocials }),
+      shop,
+      bypassCache,
+      guardrails,
+      scoring: { keywords, format, minScore },
+      temperature: style?.temperature,
+      usage: { kind: "generate", productId: product?.id ?? null, productTitle: product?.title ?? null },
+    });
+  }
+
+  /**
+   * Up to `count` descriptions in different CANDIDATE_STYLES, generated in
+   * parallel. Each one counts as a generation, so the monthly quota must cover
+   * all of them before any starts: the parallel calls would each pass their own
+   * check against the same count. Failed styles are left out; only when every
+   * style fails is the first error thrown.
+   * @param {Parameters<DeepSeekService["generateDescription"]>[0] & { count?: number }} opts
+   */
+  async generateCandidates({ count = 1, ...opts } = {}) {
+    const styles = CANDIDATE_STYLES.slice(0, Math.max(1, Math.min(count, CANDIDATE_STYLES.length)));
+    const ml = await this.checkMonthlyLimit(opts.shop ?? null);
+    if (ml.used + styles.length > ml.limit) throw new MonthlyLimitError(ml.used, ml.limit, styles.length);
+
+    const settled = await Promise.allSettled(styles.map((style) => this.generateDescription({ ...opts, style })));
+
+    const candidates = settled.flatMap((outcome, i) =>
+      outcome.status === "fulfilled" ? [{ style: styles[i], ...outcome.value }] : []
+    );
+    if (candidates.length === 0) throw settled[0].reason;
+    return candidates;
+  }
+
+  /**
+   * Revises a draft with a follow-up instruction ("shorter", "less salesy").
+   * The original prompt is replayed with the previous output as the assistant
+   * turn and the instruction as the next user turn. Counts as a generation.
+   * @param {{ product: import("./products.server").GenerationProduct, voice?: Voice | null, format?: string, keywords?: string, includeSocials?: boolean, previous: { description: string, seo?: { title: string, description: string } | null, socials?: object | null }, instruction: string, shop?: string | null }} opts
+   */
+  async refineDescription({ product, voice = null, format = "paragraph", keywords = "", includeSocials = false, previous, instruction, shop = null }) {
+    const model = `${this.provider.name}:${this.provider.model}`;
+    const guardrails = await this._guardrailsFor(shop, format);
+    const policy = guardrails ? policyKey(guardrails.policy) : null;
+    const draftKey = buildCacheKey({ product, voice, format, keywords, includeSocials, policy, model });
+    const cacheKey = `deepseek:cache:${sha1(`refine|${draftKey}|${sha1(JSON.stringify(previous))}|${instruction}`)}`;
+    const prompt = this.buildPrompt({ product, voice, format, keywords, includeSocials });
+    const turns = [
+      { role: "assistant", content: JSON.stringify(previous) },
+      {
+        role: "user",
+        content: [
+          `Revise your previous answer following this instruction: ${instruction}`,
+          "Keep everything the instruction does not ask to change, and still use only facts from the product brief.",
+          "Return the complete JSON object with the same keys as before. Just return JSON.",
+        ].join("\n"),
+      },
+    ];
+    return this._runPrompt({
+      prompt,
+      turns,
+      cacheKey,
+      schema: descriptionSchema({ format, includeSocials }),
+      shop,
+      guardrails,
+      usage: { kind: "refine", productId: product.id, productTitle: product.title ?? null },
+    });
+  }
+
+  /**
+   * Translates already-approved description HTML, keeping its markup.
+   * Counts against usage like a normal generation. The translation is checked
+   * against the shop's guardrails for words and claims; word limits are left
+   * out, since a faithful translation cannot choose its length.
+   * @param {{ html: string, productId?: string, language: string, format?: string, shop?: string | null }} opts
+   */
+  async translateDescription({ html, productId = "unknown", language, format = "paragraph", shop = null }) {
+    const shopGuardrails = await this._guardrailsFor(shop, format);
+    const translationPolicy = shopGuardrails && {
+      ...shopGuardrails.policy,
+      wordLimits: { paragraph: {}, bullets: {} },
+    };
+    const guardrails = translationPolicy && isPolicyActive(translationPolicy) ? { policy: translationPolicy, format } : null;
+    const policy = guardrails ? policyKey(guardrails.policy) : null;
+    const cacheKey = `deepseek:cache:${sha1(`translate|${productId}|${language}|${sha1(html)}|${policy}|${this.provider.name}:${this.provider.model}`)}`;
+    const prompt = [
+      `Translate this product description HTML into ${language}.`,
+      "Keep every HTML tag exactly as it is and translate only the text. Keep product names and units unchanged.",
+      `HTML: ${html}`,
+      "",
+      "RETURN: Only valid JSON object with exactly this key:",
+      `{ "description": "<p>translated HTML...</p>" }`,
+      "Do NOT include Markdown fenced code blocks. Do NOT include any explanation text. Just return JSON.",
+    ].join("\n");
+    return this._runPrompt({
+      prompt,
+      cacheKey,
+      schema: translationSchema,
+      shop,
+      guardrails,
+      usage: { kind: "translate", productId: productId === "unknown" ? null : productId },
+    });
+  }
+
+  /**
+   * Alt text for a product's images in one call. Vision-capable providers get the
+   * images themselves; the rest work from the product brief and each filename.
+   * @param {{ product: import("./products.server").GenerationProduct, images: import("./products.server").ProductImage[], shop?: string | null }} opts
+   */
+  async generateAltText({ product, images, shop = null }) {
+    const vision = Boolean(this.provider.vision);
+    const cacheKey = `deepseek:cache:${sha1(
+      `alt|${product.id}|${contentHash(product)}|${images.map((i) => i.id).join(",")}|${vision}|${this.provider.name}:${this.provider.model}`
+    )}`;
+    const prompt = [
+      "Write alt text for each product image below.",
+      "",
+      "Product brief:",
+      buildProductBrief(product, 300),
+      "",
+      "Images:",
+      ...images.map(
+        (image, i) =>
+          `${i + 1}. id: ${image.id}, file: "${filenameHint(image.url) || "unknown"}"${image.alt ? `, current alt: "${image.alt}"` : ""}`
+      ),
+      "",
+      vision
+        ? "The images are attached in the same order. Describe what each one actually shows."
+        : "You cannot see the images. Infer each one from its filename and the brief, and keep it factual rather than guessing details.",
+      `Rules: at most ${ALT_TEXT_LIMIT} characters each; name the product and what distinguishes this image (angle, color, detail, in use); do not start with "image of" or "picture of"; no keyword stuffing.`,
+      "",
+      "RETURN: Only valid JSON object with exactly this key:",
+      `{ "images": [{ "id": "<image id>", "alt": "..." }] }`,
+      "Do NOT include Markdown fenced code blocks. Do NOT include any explanation text. Just return JSON.",
+    ].join("\n");
+
+    return this._runPrompt({
+      prompt,
+      cacheKey,
+      schema: altTextSchema(images.map((i) => i.id)),
+      shop,
+      images: vision ? images.map((i) => i.url) : [],
+      usage: { kind: "alt_text", productId: product.id, productTitle: product.title },
+    });
+  }
+
+  /**
+   * The shop's guardrail policy for `_runPrompt`, or null when it checks nothing.
+   * @returns {Promise<{ policy: import("./guardrails.server").GuardrailPolicy, format: string } | null>}
+   */
+  async _guardrailsFor(shop, format) {
+    if (!shop) return null;
+    const policy = await getGuardrailPolicy(shop);
+    return isPolicyActive(policy) ? { policy, format } : null;
+  }
+
+  /**
+   * Shared path for every prompt: limits, cache, retries, validation, sanitizing and usage.
+   * HTTP/provider failures are retried with backoff (maxRetries); output that fails the
+   * schema is sent back to the model with the errors as a repair turn (maxRepairs).
+   * With `guardrails`, a valid description that breaks the policy gets the same
+   * treatment (MAX_GUARDRAIL_RETRIES) unless the policy only flags. With `scoring`,
+   * the result gets its content `score` and is rewritten once below `minScore`;
+   * if the rewrite fails outright, the draft before it is returned instead.
+   * Every call that reaches the provider ends in exactly one ledger entry.
+   * @param {{ prompt: string, cacheKey: string, schema: import("./output-schema.server").OutputSchema, shop?: string | null, images?: string[], guardrails?: { policy: import("./guardrails.server").GuardrailPolicy, format: string } | null, scoring?: { keywords: string, format: string, minScore?: number } | null, usage: { kind: import("./usage.server").UsageKind, productId?: string | null, productTitle?: string | null } }} opts
+   */
+  async _runPrompt({ prompt, turns: initialTurns = [], cacheKey, schema, shop = null, images = [], temperature = 0.7, bypassCache = false, guardrails = null, scoring = null, usage }) {
     const rl = await this.checkRateLimit(shop);
-    if (!rl.allowed) throw new Error("Rate limit exceeded. Try again shortly.");
+    if (!rl.allowed) throw new RateLimitError();
 
     const ml = await this.checkMonthlyLimit(shop);
-    if (!ml.allowed) throw new Error(`Monthly limit reached: ${ml.used}/${ml.limit}`);
+    if (!ml.allowed) throw new MonthlyLimitError(ml.used, ml.limit);
 
-    const cacheKey = buildCacheKey({ productId: product?.id ?? "unknown", vibe, format, keywords, includeSocials });
     const haveRedis = await this._ensureRedis();
-    if (haveRedis) {
+    if (haveRedis && !bypassCache) {
       try {
         const cached = await redis.get(cacheKey);
         if (cached) {
@@ -190,98 +560,186 @@ export class DeepSeekService {
       }
     }
 
-    const prompt = this.buildPrompt({ product, vibe, format, keywords, includeSocials });
+    const started = Date.now();
+    const tokens = { promptTokens: 0, completionTokens: 0 };
+    const record = (status, error = null) =>
+      this.recordUsage(shop, {
+        ...usage,
+        ...tokens,
+        status,
+        error,
+        provider: this.provider.name,
+        model: this.provider.model,
+        latencyMs: Date.now() - started,
+      });
 
-    let lastErr = null;
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
-      try {
-        const result = await this._callDeepSeekHTTP(prompt);
+    const finish = async (output) => {
+      if (haveRedis) {
+        try {
+          await redis.setex(cacheKey, 60 * 60 * 24, JSON.stringify(output));
+          if (shop) {
+            await redis.sadd(cacheIndexKey(shop), cacheKey);
+            await redis.expire(cacheIndexKey(shop), 60 * 60 * 24);
+          }
+          if (shop && usage?.productId) {
+            const indexKey = productCacheIndexKey(shop, usage.productId);
+            await redis.sadd(indexKey, cacheKey);
+            await redis.expire(indexKey, 60 * 60 * 24);
+          }
+        } catch (e) {}
+      }
+      await record("success");
+      return output;
+    };
 
-        if (result?.description) result.description = sanitizeHTML(String(result.description));
-        if (haveRedis) {
-          try {
-            await redis.setex(cacheKey, 60 * 60 * 24, JSON.stringify(result));
-          } catch (e) {}
+    // Repair turns go after any conversation the caller started
+    const turns = [...initialTurns];
+    let httpFailures = 0;
+    let repairs = 0;
+    let regenerations = 0;
+    let rescored = 0;
+    // The last result sent back for a score rewrite, kept in case the rewrite does worse
+    let beforeRewrite = null;
+    while (true) {
+      let aiText;
+      try {
+        const response = await this._callDeepSeekHTTP(prompt, turns, images, temperature);
+        aiText = response.text;
+        tokens.promptTokens += response.usage?.promptTokens ?? 0;
+        tokens.completionTokens += response.usage?.completionTokens ?? 0;
+      } catch (err) {
+        httpFailures++;
+        await this.recordFailure(shop, "http");
+        if (httpFailures >= this.maxRetries) {
+          // A failed score rewrite still leaves the valid draft it started from
+          if (beforeRewrite) return finish(beforeRewrite);
+          const error = new Error(`Generation failed: ${err?.message ?? "unknown error"}`);
+          await record("failed", error.message);
+          throw error;
         }
-        if (shop) await this.incrementUsage(shop);
-        return result;
+        await sleep(500 * httpFailures);
+        continue;
+      }
+
+      let parsed = null;
+      let errors;
+      try {
+        parsed = extractJsonFromText(aiText);
+        errors = schema.validate(parsed);
       } catch (err) {
-        lastErr = err;
-        if (attempt < this.maxRetries) await sleep(500 * attempt);
+        errors = [`response was not valid JSON (${err?.message ?? "parse error"})`];
       }
-    }
 
-    throw new Error(`Generation failed: ${lastErr?.message ?? "unknown error"}`);
+      if (errors.length === 0) {
+        const result = schema.coerce(parsed);
+        if (result.description) result.description = sanitizeHTML(result.description);
+        if ("seo" in result) result.seo = normalizeSeo(result.seo);
+
+        if (guardrails) {
+          const violations = checkGuardrails(guardrails.policy, result, guardrails.format);
+          if (violations.length > 0 && guardrails.policy.onViolation === "regenerate" && regenerations < MAX_GUARDRAIL_RETRIES) {
+            regenerations++;
+            await this.recordFailure(shop, "guardrail");
+            turns.push(
+              { role: "assistant", content: aiText },
+              { role: "user", content: buildGuardrailPrompt(violations) }
+            );
+            continue;
+          }
+          result.guardrail = {
+            status: violations.length > 0 ? "flagged" : regenerations > 0 ? "regenerated" : "passed",
+            violations,
+            regenerations,
+          };
+        }
+
+        if (scoring) {
+          const analysis = analyzeDescription(result.description ?? "", scoring.keywords, scoring.format);
+          result.score = analysis.score;
+          // Guardrails come first: never trade a passing draft for a better-scoring one that breaks them
+          if (analysis.score < (scoring.minScore ?? 0) && rescored < MAX_SCORE_RETRIES && result.guardrail?.status !== "flagged") {
+            rescored++;
+            beforeRewrite = result;
+            turns.push(
+              { role: "assistant", content: aiText },
+              {
+                role: "user",
+                content: [
+                  `Your description scores ${analysis.score}/100 for SEO and readability. Improve it:`,
+                  ...analysis.issues.map((issue) => `- ${issue}`),
+                  "",
+                  "Still use only facts from the product brief. Return the complete JSON object with the same keys as before. No Markdown, no explanation.",
+                ].join("\n"),
+              }
+            );
+            continue;
+          }
+        }
+
+        // A rewrite is only kept when it scores higher and still passes guardrails
+        const best =
+          beforeRewrite && (result.guardrail?.status === "flagged" || beforeRewrite.score >= result.score)
+            ? beforeRewrite
+            : result;
+        return finish(best);
+      }
+
+      await this.recordFailure(shop, "validation");
+      if (repairs >= this.maxRepairs) {
+        if (beforeRewrite) return finish(beforeRewrite);
+        const error = new AIValidationError(errors);
+        await record("failed", error.message);
+        throw error;
+      }
+      repairs++;
+      turns.push(
+        { role: "assistant", content: aiText },
+        { role: "user", content: buildRepairPrompt(schema, errors) }
+      );
+    }
   }
 
-  async _callDeepSeekHTTP(prompt) {
-    if (!this.apiKey) throw new Error("DeepSeek API key is not configured");
+  /**
+   * Sends the prompt (plus any follow-up turns) through the configured provider and
+   * returns the raw assistant text with token usage; the name predates the provider abstraction.
+   * @param {string} prompt
+   * @param {{ role: string, content: string }[]} [turns]
+   * @param {string[]} [images] image URLs, sent only to vision-capable providers
+   */
+  async _callDeepSeekHTTP(prompt, turns = [], images = [], temperature = 0.7) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const res = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            { role: "system", content: "You are an expert e-commerce copywriter. Return valid JSON only." },
-            { role: "user", content: prompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 1500,
-        }),
+      const response = await this.provider.complete({
+        messages: [
+          { role: "system", content: "You are an expert e-commerce copywriter. Return valid JSON only." },
+          {
+            role: "user",
+            content: images.length
+              ? [{ type: "text", text: prompt }, ...images.map((url) => ({ type: "image_url", image_url: { url } }))]
+              : prompt,
+          },
+          ...turns,
+        ],
+        temperature,
+        maxTokens: 1500,
         signal: controller.signal,
       });
-
-      clearTimeout(timeoutId);
-
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`DeepSeek HTTP ${res.status}: ${txt}`);
-      }
-
-      const payload = await res.json().catch(async () => {
-        const txt = await res.text();
-        return { rawText: txt };
-      });
-
-      let aiText = null;
-      if (payload?.choices?.[0]?.message?.content) aiText = payload.choices[0].message.content;
-      else if (payload?.choices?.[0]?.text) aiText = payload.choices[0].text;
-      else if (payload?.rawText) aiText = payload.rawText;
-      else aiText = JSON.stringify(payload);
-
-      const parsed = extractJsonFromText(String(aiText));
-
-      if (!parsed || typeof parsed !== "object") throw new Error("AI returned invalid JSON object");
-      if (!("description" in parsed)) parsed.description = "";
-      if (!("socials" in parsed)) parsed.socials = null;
-
-      return parsed;
+      return { text: String(response?.text ?? ""), usage: response?.usage ?? null };
     } catch (err) {
-      if (err?.name === "AbortError") throw new Error("DeepSeek request timed out");
+      if (err?.name === "AbortError") throw new Error(`${this.provider.label} request timed out`);
       throw err;
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
-  buildPrompt({ product, vibe, format, keywords, includeSocials } = {}) {
-    const title = product?.title ?? "Untitled";
-    const oldDescription = (product?.description ?? "").replace(/\n/g, " ");
-    const metafieldsArray = normalizeMetafields(product);
-    const metafields = metafieldsArray.length ? metafieldsArray.join(", ") : "None";
-
-    const vibeMap = {
-      edgy: "Bold. Punchy. Minimal fluff.",
-      minimalist: "Ultra concise. Functional. No adjectives.",
-      roast: "Real Talk. Brutally honest. Persuasive, not rude.",
-    };
+  /**
+   * @param {{ product?: import("./products.server").GenerationProduct | null, voice?: Voice | null, format?: string, keywords?: string, includeSocials?: boolean, language?: string | null }} [opts]
+   */
+  buildPrompt({ product, voice, format, keywords, includeSocials, language, angle = null } = {}) {
+    const brief = product ? buildProductBrief(product) : "Title: Untitled";
 
     const formatMap = {
       paragraph: "Return HTML paragraphs using <p> tags (2-3 short paragraphs).",
@@ -289,18 +747,28 @@ export class DeepSeekService {
     };
 
     const instructions = [
-      `Title: ${title}`,
-      `Meta: ${metafields}`,
-      `Old Description: ${oldDescription || "None"}`,
-      `Tone: ${vibeMap[vibe] ?? vibeMap.edgy}`,
+      "Product brief:",
+      brief,
+      "Use only facts from the brief (specs, materials, sizes, prices). Do not invent specifications, certifications or claims.",
+      "",
+      `Tone: ${voice?.tone || DEFAULT_TONE}`,
+      voice?.examples?.length ? `Voice examples (match this style, do not copy):\n${voice.examples.map((e) => `- ${e}`).join("\n")}` : "",
+      voice?.preferredWords?.length ? `Prefer these words: ${voice.preferredWords.join(", ")}` : "",
+      voice?.bannedWords?.length ? `Never use these words: ${voice.bannedWords.join(", ")}` : "",
+      voice?.targetLength ? `Target length: about ${voice.targetLength} words.` : "",
       `Format: ${formatMap[format] ?? formatMap.paragraph}`,
+      angle ? `Angle: ${angle}` : "",
       keywords ? `SEO Keywords: ${keywords}` : "",
+      language ? `Language: Write the description natively in ${language} (not a literal translation).` : "",
       includeSocials ? "Also generate a 'socials' object with keys 'twitter' and 'instagram'." : "",
       "",
+      `Also write an SEO title (max ${SEO_TITLE_LIMIT} characters) and a meta description (max ${SEO_DESCRIPTION_LIMIT} characters) in plain text${keywords ? " that use the SEO keywords naturally" : ""}.`,
+      "",
       "RETURN: Only valid JSON object with exactly these keys:",
       `{
   "description": "<p>HTML product description here...</p>",
-  "socials": { "twitter": "...", "instagram": "..." }  // or null
+  "socials": { "twitter": "...", "instagram": "..." },  // or null
+  "seo": { "title": "...", "description": "..." }
 }`,
       "Do NOT include Markdown fenced code blocks. Do NOT include any explanation text. Just return JSON.",
     ].filter(Boolean).join("\n");
@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import prisma from "../db.server";
+import { htmlToText } from "../utils/html";
+import type { SeoFields } from "../utils/seo";
+
+/**
+ * Content guardrails
+ * - A per-shop policy checked on every generated, refined or translated
+ *   description, after sanitizing: banned words, regulated claims and word
+ *   counts per format. Words and claims are also checked in the SEO fields and
+ *   social posts. Translations skip the word counts, which follow the source.
+ * - Voice banned words only steer the prompt; the policy is enforced on output.
+ * - With onViolation "regenerate" the model gets the broken rules back as a
+ *   repair turn (see deepseek.server.js). Whatever still fails is returned
+ *   flagged with the rules it broke, and the outcome is kept in history.
+ */
+
+export type ClaimCategory = "medical" | "guarantee" | "eco";
+export type GuardrailRule = "banned_word" | "claim" | "min_words" | "max_words";
+export type GuardrailStatus = "passed" | "regenerated" | "flagged";
+export type DescriptionFormat = "paragraph" | "bullets";
+
+export interface GuardrailViolation {
+  rule: GuardrailRule;
+  message: string;
+}
+
+export interface GuardrailOutcome {
+  status: GuardrailStatus;
+  // Rules the returned description still breaks; empty unless flagged
+  violations: GuardrailViolation[];
+  regenerations: number;
+}
+
+export interface WordLimits {
+  min?: number;
+  max?: number;
+}
+
+export interface GuardrailPolicy {
+  enabled: boolean;
+  bannedWords: string[];
+  claimCategories: ClaimCategory[];
+  customClaims: string[];
+  wordLimits: Record<DescriptionFormat, WordLimits>;
+  onViolation: "regenerate" | "flag";
+}
+
+// Regenerations per description on top of the first attempt
+export const MAX_GUARDRAIL_RETRIES = 2;
+
+/**
+ * Built-in patterns for claims that need substantiation. They err on the side
+ * of flagging: a false positive costs a regeneration, a miss costs a takedown.
+ */
+export const CLAIM_CATEGORIES: Record<ClaimCategory, { label: string; patterns: RegExp[] }> = {
+  medical: {
+    label: "Medical and health claims",
+    patterns: [
+      /\b(cures?|cured|curing|heals?|healing)\b/i,
+      /\b(treats?|prevents?|relieves?)\s+([\w-]+\s+){0,2}(pain|acne|eczema|anxiety|depression|insomnia|arthritis|diseases?|infections?|inflammation|symptoms?)\b/i,
+      /\bclinically\s+(proven|tested)\b/i,
+      /\b(fda|doctor|dermatologist)[\s-](approved|recommended)\b/i,
+      /\b(boosts?|strengthens?)\s+(your\s+)?immun/i,
+      /\bdetox(ify|ifies|ifying)?\b/i,
+    ],
+  },
+  guarantee: {
+    label: "Guarantees and absolute promises",
+    patterns: [
+      /\bguarantee[sd]?\b/i,
+      /\b100\s?%\s+(safe|effective|natural|satisfaction|risk[\s-]free)\b/i,
+      /\brisk[\s-]free\b/i,
+      /\bmoney[\s-]back\b/i,
+      /\bnever\s+(fails?|breaks?|wears?\s+out)\b/i,
+    ],
+  },
+  eco: {
+    label: "Environmental claims",
+    patterns: [
+      /\b(eco|environmentally|planet|earth)[\s-]?friendly\b/i,
+      /\b(carbon|climate)[\s-](neutral|negative|positive)\b/i,
+      /\bsustainabl[ey]\b/i,
+      /\b(biodegradable|compostable)\b/i,
+      /\bzero[\s-]waste\b/i,
+      /\bnon[\s-]toxic\b/i,
+    ],
+  },
+};
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  enabled: false,
+  bannedWords: [],
+  claimCategories: [],
+  customClaims: [],
+  wordLimits: { paragraph: {}, bullets: {} },
+  onViolation: "regenerate",
+};
+
+type GuardrailPolicyRecord = {
+  shop: string;
+  enabled: boolean;
+  bannedWords: string;
+  claimCategories: string;
+  customClaims: string;
+  paragraphMinWords: number | null;
+  paragraphMaxWords: number | null;
+  bulletsMinWords: number | null;
+  bulletsMaxWords: number | null;
+  onViolation: string;
+  updatedAt: Date;
+};
+
+// Word lists are stored comma-separated, custom claims one per line
+const splitLines = (value: string) => value.split("\n").map((s) => s.trim()).filter(Boolean);
+const splitWords = (value: string) => value.split(",").map((s) => s.trim()).filter(Boolean);
+const isClaimCategory = (value: string): value is ClaimCategory => value in CLAIM_CATEGORIES;
+
+function toPolicy(record: GuardrailPolicyRecord): GuardrailPolicy {
+  return {
+    enabled: record.enabled,
+    bannedWords: splitWords(record.bannedWords),
+    claimCategories: splitWords(record.claimCategories).filter(isClaimCategory),
+    customClaims: splitLines(record.customClaims),
+    wordLimits: {
+      paragraph: { min: record.paragraphMinWords ?? undefined, max: record.paragraphMaxWords ?? undefined },
+      bullets: { min: record.bulletsMinWords ?? undefined, max: record.bulletsMaxWords ?? undefined },
+    },
+    onViolation: record.onViolation === "flag" ? "flag" : "regenerate",
+  };
+}
+
+function toData(policy: GuardrailPolicy) {
+  return {
+    enabled: policy.enabled,
+    bannedWords: policy.bannedWords.join(", "),
+    claimCategories: policy.claimCategories.join(","),
+    customClaims: policy.customClaims.join("\n"),
+    paragraphMinWords: policy.wordLimits.paragraph.min ?? null,
+    paragraphMaxWords: policy.wordLimits.paragraph.max ?? null,
+    bulletsMinWords: policy.wordLimits.bullets.min ?? null,
+    bulletsMaxWords: policy.wordLimits.bullets.max ?? null,
+    onViolation: policy.onViolation,
+  };
+}
+
+export function parseGuardrailForm(formData: FormData): GuardrailPolicy {
+  const limit = (field: string) => {
+    const value = parseInt(String(formData.get(field) || ""), 10);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  return {
+    enabled: formData.get("enabled") === "true",
+    bannedWords: splitWords(String(formData.get("bannedWords") || "")),
+    claimCategories: splitWords(String(formData.get("claimCategories") || "")).filter(isClaimCategory),
+    customClaims: splitLines(String(formData.get("customClaims") || "")),
+    wordLimits: {
+      paragraph: { min: limit("paragraphMinWords"), max: limit("paragraphMaxWords") },
+      bullets: { min: limit("bulletsMinWords"), max: limit("bulletsMaxWords") },
+    },
+    onViolation: formData.get("onViolation") === "flag" ? "flag" : "regenerate",
+  };
+}
+
+export async function getGuardrailPolicy(shop: string): Promise<GuardrailPolicy> {
+  const record: GuardrailPolicyRecord | null = await prisma.guardrailPolicy.findUnique({ where: { shop } });
+  return record ? toPolicy(record) : DEFAULT_GUARDRAIL_POLICY;
+}
+
+export async function saveGuardrailPolicy(shop: string, policy: GuardrailPolicy): Promise<void> {
+  const data = toData(policy);
+  await prisma.guardrailPolicy.upsert({ where: { shop }, create: { shop, ...data }, update: data });
+}
+
+/** Whether the policy would check anything at all. */
+export function isPolicyActive(policy: GuardrailPolicy): boolean {
+  const { paragraph, bullets } = policy.wordLimits;
+  return (
+    policy.enabled &&
+    (policy.bannedWords.length > 0 ||
+      policy.claimCategories.length > 0 ||
+      policy.customClaims.length > 0 ||
+      Boolean(paragraph.min || paragraph.max || bullets.min || bullets.max))
+  );
+}
+
+/** Changes whenever the policy does, so cached outputs are re-checked under a new one. */
+export function policyKey(policy: GuardrailPolicy): string {
+  return crypto.createHash("sha1").update(JSON.stringify(policy)).digest("hex").slice(0, 12);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const phrasePattern = (phrase: string) => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(phrase)}(?=$|[^\\p{L}\\p{N}])`, "iu");
+const countWords = (text: string) => text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu)?.length ?? 0;
+
+/**
+ * Checks a sanitized description (and its SEO fields and social posts, for
+ * words and claims) against the policy. Returns every rule it breaks; empty
+ * means it passed.
+ */
+export function checkGuardrails(
+  policy: GuardrailPolicy,
+  output: {
+    description: string;
+    seo?: SeoFields | null;
+    socials?: { twitter?: string; instagram?: string } | null;
+  },
+  format: string
+): GuardrailViolation[] {
+  if (!isPolicyActive(policy)) return [];
+
+  const body = htmlToText(output.description ?? "");
+  const text = [
+    body,
+    output.seo?.title ?? "",
+    output.seo?.description ?? "",
+    output.socials?.twitter ?? "",
+    output.socials?.instagram ?? "",
+  ].join("\n");
+  const violations: GuardrailViolation[] = [];
+
+  for (const word of policy.bannedWords) {
+    if (phrasePattern(word).test(text)) {
+      violations.push({ rule: "banned_word", message: `Uses the banned word "${word}"` });
+    }
+  }
+
+  for (const category of policy.claimCategories) {
+    const { label, patterns } = CLAIM_CATEGORIES[category];
+    const match = patterns.map((pattern) => text.match(pattern)?.[0]).find(Boolean);
+    if (match) violations.push({ rule: "claim", message: `${label}: "${match.trim()}"` });
+  }
+
+  for (const claim of policy.customClaims) {
+    if (phrasePattern(claim).test(text)) {
+      violations.push({ rule: "claim", message: `Restricted claim: "${claim}"` });
+    }
+  }
+
+  const limits = policy.wordLimits[format === "bullets" ? "bullets" : "paragraph"];
+  const words = countWords(body);
+  if (limits.min && words < limits.min) {
+    violations.push({ rule: "min_words", message: `Has ${words} words; ${format} descriptions need at least ${limits.min}` });
+  }
+  if (limits.max && words > limits.max) {
+    violations.push({ rule: "max_words", message: `Has ${words} words; ${format} descriptions allow at most ${limits.max}` });
+  }
+
+  return violations;
+}
+
+/** The follow-up turn asking the model to fix what the check found. */
+export function buildGuardrailPrompt(violations: GuardrailViolation[]): string {
+  return [
+    "Your previous response breaks the store's content policy:",
+    ...violations.map((v) => `- ${v.message}`),
+    "",
+    "Rewrite it so none of these apply. Do not add claims about health, guarantees or the environment.",
+    "Return the complete JSON object with the same keys as before. No Markdown, no explanation.",
+  ].join("\n");
+}
@@ -1,11 +1,13 @@
+import prisma from "../db.server";
+import type { GuardrailOutcome } from "./guardrails.server";
 
-
-interface HistoryEntry {
+export interface HistoryEntry {
   id: string;
   productId: string;
   productTitle: string;
   description: string;
   vibe: string;
+  voiceId?: string;
   format: string;
   keywords?: string;
   includeSocials: boolean;
@@ -13,42 +15,192 @@ interface HistoryEntry {
     twitter?: string;
     instagram?: string;
   };
+  seo?: {
+    title: string;
+    description: string;
+  };
+  candidateGroup?: string;
+  candidateStyle?: string;
+  // Saved to the product, alone or merged with other candidates of its group
+  chosen: boolean;
+  // Missing for entries generated before guardrails, or with no active policy
+  guardrail?: GuardrailOutcome;
   createdAt: string;
 }
 
-// In-memory storage (replace with database later)
-let historyStore: HistoryEntry[] = [];
+export type NewHistoryEntry = Omit<HistoryEntry, "id" | "createdAt" | "chosen">;
 
-export async function getHistory(): Promise<HistoryEntry[]> {
-  // Sort by most recent first
-  return historyStore.sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+type HistoryRecord = {
+  id: string;
+  productId: string;
+  productTitle: string;
+  description: string;
+  vibe: string;
+  voiceId: string | null;
+  format: string;
+  keywords: string | null;
+  includeSocials: boolean;
+  socials: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  candidateGroup: string | null;
+  candidateStyle: string | null;
+  chosen: boolean;
+  guardrailStatus: GuardrailOutcome["status"] | null;
+  guardrailViolations: string | null;
+  createdAt: Date;
+};
+
+// Socials are stored as a JSON string since SQLite has no native JSON column
+function parseSocials(raw: string | null): HistoryEntry["socials"] {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
 }
 
-export async function addHistoryEntry(entry: Omit<HistoryEntry, "id" | "createdAt">): Promise<HistoryEntry> {
-  const newEntry: HistoryEntry = {
-    ...entry,
-    id: `hist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    createdAt: new Date().toISOString(),
+function parseGuardrail(record: HistoryRecord): HistoryEntry["guardrail"] {
+  if (!record.guardrailStatus) return undefined;
+  try {
+    const { violations = [], regenerations = 0 } = JSON.parse(record.guardrailViolations ?? "{}");
+    return { status: record.guardrailStatus, violations, regenerations };
+  } catch {
+    return { status: record.guardrailStatus, violations: [], regenerations: 0 };
+  }
+}
+
+function toEntry(record: HistoryRecord): HistoryEntry {
+  return {
+    id: record.id,
+    productId: record.productId,
+    productTitle: record.productTitle,
+    description: record.description,
+    vibe: record.vibe,
+    voiceId: record.voiceId ?? undefined,
+    format: record.format,
+    keywords: record.keywords ?? undefined,
+    includeSocials: record.includeSocials,
+    socials: parseSocials(record.socials),
+    seo:
+      record.seoTitle || record.seoDescription
+        ? { title: record.seoTitle ?? "", description: record.seoDescription ?? "" }
+        : undefined,
+    candidateGroup: record.candidateGroup ?? undefined,
+    candidateStyle: record.candidateStyle ?? undefined,
+    chosen: record.chosen,
+    guardrail: parseGuardrail(record),
+    createdAt: record.createdAt.toISOString(),
   };
+}
 
-  historyStore.push(newEntry);
-  
-  // Keep only last 50 entries to prevent memory issues
-  if (historyStore.length > 50) {
-    historyStore = historyStore.slice(-50);
-  }
+export const HISTORY_PAGE_SIZE = 50;
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  // Same shape as the Admin API's pageInfo, so the UI pages both alike
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  total: number;
+}
+
+/**
+ * One page of a shop's history, most recent first. Cursors are entry IDs:
+ * pass the previous page's endCursor as `after`, or its startCursor as `before`.
+ */
+export async function getHistory(
+  shop: string,
+  page: { after?: string | null; before?: string | null } = {}
+): Promise<HistoryPage> {
+  const cursor = page.before || page.after;
+  const backwards = Boolean(page.before);
+
+  const [records, total]: [HistoryRecord[], number] = await Promise.all([
+    prisma.generationHistory.findMany({
+      where: { shop },
+      // The ID breaks ties between entries saved in the same millisecond
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      // One extra row tells whether there is another page in that direction
+      take: backwards ? -(HISTORY_PAGE_SIZE + 1) : HISTORY_PAGE_SIZE + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    }),
+    prisma.generationHistory.count({ where: { shop } }),
+  ]);
+
+  const hasMore = records.length > HISTORY_PAGE_SIZE;
+  const pageRecords = !hasMore ? records : backwards ? records.slice(1) : records.slice(0, HISTORY_PAGE_SIZE);
+  const entries = pageRecords.map(toEntry);
+
+  return {
+    entries,
+    pageInfo: {
+      hasNextPage: backwards ? Boolean(cursor) : hasMore,
+      hasPreviousPage: backwards ? hasMore : Boolean(cursor),
+      startCursor: entries[0]?.id ?? null,
+      endCursor: entries[entries.length - 1]?.id ?? null,
+    },
+    total,
+  };
+}
+
+export async function getHistoryEntry(shop: string, id: string): Promise<HistoryEntry | null> {
+  const record: HistoryRecord | null = await prisma.generationHistory.findFirst({ where: { id, shop } });
+  return record ? toEntry(record) : null;
+}
+
+export async function addHistoryEntry(shop: string, entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const record: HistoryRecord = await prisma.generationHistory.create({
+    data: {
+      shop,
+      productId: entry.productId,
+      productTitle: entry.productTitle,
+      description: entry.description,
+      vibe: entry.vibe,
+      voiceId: entry.voiceId ?? null,
+      format: entry.format,
+      keywords: entry.keywords || null,
+      includeSocials: entry.includeSocials,
+      socials: entry.socials ? JSON.stringify(entry.socials) : null,
+      seoTitle: entry.seo?.title || null,
+      seoDescription: entry.seo?.description || null,
+      candidateGroup: entry.candidateGroup ?? null,
+      candidateStyle: entry.candidateStyle ?? null,
+      guardrailStatus: entry.guardrail?.status ?? null,
+      guardrailViolations: entry.guardrail
+        ? JSON.stringify({ violations: entry.guardrail.violations, regenerations: entry.guardrail.regenerations })
+        : null,
+    },
+  });
+  return toEntry(record);
+}
 
-  return newEntry;
+/**
+ * Marks which candidates of a group ended up on the product. Saving again
+ * replaces the earlier choice, so only the latest save counts.
+ */
+export async function markChosenCandidates(shop: string, candidateGroup: string, ids: string[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.generationHistory.updateMany({ where: { shop, candidateGroup }, data: { chosen: false } }),
+    prisma.generationHistory.updateMany({
+      where: { shop, candidateGroup, id: { in: ids } },
+      data: { chosen: true },
+    }),
+  ]);
 }
 
-export async function clearHistory(): Promise<void> {
-  historyStore = [];
+export async function clearHistory(shop: string): Promise<void> {
+  await prisma.refinementTurn.deleteMany({ where: { shop } });
+  await prisma.generationHistory.deleteMany({ where: { shop } });
 }
 
-export async function deleteHistoryEntry(id: string): Promise<boolean> {
-  const initialLength = historyStore.length;
-  historyStore = historyStore.filter(entry => entry.id !== id);
-  return historyStore.length < initialLength;
+export async function deleteHistoryEntry(shop: string, id: string): Promise<boolean> {
+  // Scope by shop so one store can never delete another store's entries
+  const { count } = await prisma.generationHistory.deleteMany({ where: { id, shop } });
+  await prisma.refinementTurn.deleteMany({ where: { historyId: id, shop } });
+  return count > 0;
 }
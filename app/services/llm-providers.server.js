@@ -0,0 +1,189 @@
+// app/services/llm-providers.server.js
+import crypto from "crypto";
+
+/**
+ * LLM providers
+ * - Each provider exposes `complete({ messages, temperature, maxTokens, signal })`
+ *   and resolves with `{ text, usage }`: the raw assistant text plus token counts
+ *   when the API reports them. JSON extraction, caching, rate limiting and
+ *   sanitizing stay in DeepSeekService.
+ * - Pick one per deployment with LLM_PROVIDER (deepseek | openai | ollama | mock),
+ *   or pass `provider` to `new DeepSeekService({ provider })`.
+ * - `vision` is true when the provider accepts OpenAI-style `image_url` content
+ *   parts; only OpenAI-compatible endpoints can, and only with LLM_VISION=true.
+ */
+
+const trimSlash = (url) => String(url).replace(/\/$/, "");
+
+/** @typedef {{ promptTokens: number, completionTokens: number }} TokenUsage */
+
+// Rough count for providers that do not report usage
+const estimateTokens = (text) => Math.ceil(String(text).length / 4);
+
+async function readError(res, label) {
+  const txt = await res.text().catch(() => "");
+  return new Error(`${label} HTTP ${res.status}: ${txt}`);
+}
+
+/**
+ * Any endpoint that speaks the OpenAI `/chat/completions` shape
+ * (OpenAI, Together, Groq, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider {
+  constructor(opts = {}) {
+    this.name = opts.name ?? "openai";
+    this.label = opts.label ?? "LLM";
+    this.baseUrl = opts.baseUrl ?? process.env.LLM_BASE_URL ?? "https://api.openai.com/v1";
+    this.apiKey = opts.apiKey ?? process.env.LLM_API_KEY;
+    this.model = opts.model ?? process.env.LLM_MODEL ?? "gpt-4o-mini";
+    this.requireApiKey = opts.requireApiKey ?? true;
+    this.vision = opts.vision ?? process.env.LLM_VISION === "true";
+  }
+
+  async complete({ messages, temperature = 0.7, maxTokens = 1500, signal } = {}) {
+    if (this.requireApiKey && !this.apiKey) throw new Error(`${this.label} API key is not configured`);
+
+    const headers = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const res = await fetch(`${trimSlash(this.baseUrl)}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+      }),
+      signal,
+    });
+
+    if (!res.ok) throw await readError(res, this.label);
+
+    const payload = await res.json().catch(async () => {
+      const txt = await res.text();
+      return { rawText: txt };
+    });
+
+    const usage = payload?.usage
+      ? { promptTokens: payload.usage.prompt_tokens ?? 0, completionTokens: payload.usage.completion_tokens ?? 0 }
+      : null;
+
+    if (payload?.choices?.[0]?.message?.content) return { text: payload.choices[0].message.content, usage };
+    if (payload?.choices?.[0]?.text) return { text: payload.choices[0].text, usage };
+    if (payload?.rawText) return { text: payload.rawText, usage };
+    return { text: JSON.stringify(payload), usage };
+  }
+}
+
+export class DeepSeekProvider extends OpenAICompatibleProvider {
+  constructor(opts = {}) {
+    super({
+      name: "deepseek",
+      label: "DeepSeek",
+      baseUrl: opts.baseUrl ?? process.env.DEEPSEEK_BASE_URL ?? "https://api.deepseek.com",
+      apiKey: opts.apiKey ?? process.env.DEEPSEEK_API_KEY,
+      model: opts.model ?? "deepseek-chat",
+      vision: false,
+    });
+  }
+}
+
+/**
+ * Local Ollama server using the native `/api/chat` endpoint.
+ */
+export class OllamaProvider {
+  constructor(opts = {}) {
+    this.name = "ollama";
+    this.label = "Ollama";
+    this.baseUrl = opts.baseUrl ?? process.env.OLLAMA_BASE_URL ?? "http://localhost:11434";
+    this.model = opts.model ?? process.env.OLLAMA_MODEL ?? "llama3.1";
+    this.vision = false;
+  }
+
+  async complete({ messages, temperature = 0.7, maxTokens = 1500, signal } = {}) {
+    const res = await fetch(`${trimSlash(this.baseUrl)}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        stream: false,
+        format: "json",
+        options: { temperature, num_predict: maxTokens },
+      }),
+      signal,
+    });
+
+    if (!res.ok) throw await readError(res, this.label);
+
+    const payload = await res.json();
+    return {
+      text: payload?.message?.content ?? "",
+      usage: { promptTokens: payload?.prompt_eval_count ?? 0, completionTokens: payload?.eval_count ?? 0 },
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider: the same prompt always yields the same JSON.
+ * Used for local development and exercising the generate route without a key.
+ */
+export class MockProvider {
+  constructor(opts = {}) {
+    this.name = "mock";
+    this.label = "Mock";
+    this.model = opts.model ?? "mock-1";
+    this.vision = false;
+  }
+
+  async complete({ messages = [] } = {}) {
+    const prompt = messages.map((m) => m.content).join("\n");
+    const digest = crypto.createHash("sha1").update(prompt).digest("hex").slice(0, 8);
+    const title = prompt.match(/^Title: (.*)$/m)?.[1]?.trim() || "this product";
+    const bullets = /<ul><li>/.test(prompt);
+    const wantsSocials = /'socials' object/.test(prompt);
+
+    const respond = (output) => {
+      const text = JSON.stringify(output);
+      return { text, usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text) } };
+    };
+
+    if (/Write alt text for each product image/.test(prompt)) {
+      const ids = [...prompt.matchAll(/^\d+\. id: (\S+)/gm)].map((m) => m[1]);
+      return respond({ images: ids.map((id, i) => ({ id, alt: `${title}, view ${i + 1}` })) });
+    }
+
+    // Translations only carry the description back
+    if (/Translate this product description/.test(prompt)) {
+      return respond({ description: `<p>${title} (${digest})</p>` });
+    }
+
+    const description = bullets
+      ? `<ul><li>${title} is built to last.</li><li>Designed for everyday use.</li><li>Reference ${digest}.</li></ul>`
+      : `<p>${title} is built to last and designed for everyday use.</p><p>Reference ${digest}.</p>`;
+
+    return respond({
+      description,
+      socials: wantsSocials
+        ? { twitter: `Meet ${title}. #${digest}`, instagram: `${title}, made for every day. #${digest}` }
+        : null,
+      seo: { title: `${title} | Built to last`, description: `${title}, designed for everyday use. Reference ${digest}.` },
+    });
+  }
+}
+
+const PROVIDERS = {
+  deepseek: DeepSeekProvider,
+  openai: OpenAICompatibleProvider,
+  ollama: OllamaProvider,
+  mock: MockProvider,
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+export function createProvider(name = process.env.LLM_PROVIDER ?? "deepseek", opts = {}) {
+  const Provider = PROVIDERS[String(name).toLowerCase()];
+  if (!Provider) throw new Error(`Unknown LLM provider "${name}". Expected one of: ${PROVIDER_NAMES.join(", ")}`);
+  return new Provider(opts);
+}
@@ -0,0 +1,164 @@
+// app/services/output-schema.server.js
+import { ALT_TEXT_LIMIT } from "../utils/alt-text";
+
+/**
+ * Output schemas for AI responses
+ * - One schema per output format. `validate` returns a list of human-readable
+ *   errors, phrased so they can be sent straight back to the model in a repair turn.
+ * - `coerce` runs only after validation passes and returns the clean value.
+ */
+
+/**
+ * @typedef {{ twitter: string, instagram: string }} Socials
+ * @typedef {{ title: string, description: string }} Seo
+ * @typedef {{ description: string, socials: Socials | null, seo: Seo }} DescriptionOutput
+ * @typedef {{ description: string }} TranslationOutput
+ * @typedef {{ images: { id: string, alt: string }[] }} AltTextOutput
+ * @typedef {{ name: string, keys: string[], validate: (value: any) => string[], coerce: (value: any) => any }} OutputSchema
+ */
+
+export class AIValidationError extends Error {
+  /** @param {string[]} errors */
+  constructor(errors) {
+    super(`AI output failed validation: ${errors.join("; ")}`);
+    this.name = "AIValidationError";
+    this.errors = errors;
+  }
+}
+
+const isObject = (v) => v !== null && typeof v === "object" && !Array.isArray(v);
+const isNonEmptyString = (v) => typeof v === "string" && v.trim().length > 0;
+const textOf = (html) => String(html).replace(/<[^>]*>/g, "").trim();
+
+function checkKeys(value, keys, required) {
+  const errors = [];
+  for (const key of required) {
+    if (!(key in value)) errors.push(`missing required key "${key}"`);
+  }
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) errors.push(`unexpected key "${key}" (allowed: ${keys.join(", ")})`);
+  }
+  return errors;
+}
+
+function checkDescriptionHtml(html, format) {
+  if (!isNonEmptyString(html)) return ['"description" must be a non-empty HTML string'];
+  if (!textOf(html)) return ['"description" has no text content'];
+  if (format === "bullets" && !/<ul[\s>]/i.test(html)) return ['"description" must be a <ul> list of <li> bullets'];
+  if (format !== "bullets" && !/<p[\s>]/i.test(html)) return ['"description" must use <p> paragraphs'];
+  return [];
+}
+
+/**
+ * Schema for a product description in the given format.
+ * @param {{ format?: string, includeSocials?: boolean }} opts
+ * @returns {OutputSchema}
+ */
+export function descriptionSchema({ format = "paragraph", includeSocials = false } = {}) {
+  const keys = ["description", "socials", "seo"];
+  return {
+    name: `description:${format === "bullets" ? "bullets" : "paragraph"}`,
+    keys,
+    validate(value) {
+      if (!isObject(value)) return ["response must be a JSON object"];
+      const errors = checkKeys(value, keys, ["description", "seo"]);
+      errors.push(...checkDescriptionHtml(value.description, format));
+
+      const socials = value.socials ?? null;
+      if (includeSocials) {
+        if (!isObject(socials) || !isNonEmptyString(socials.twitter) || !isNonEmptyString(socials.instagram)) {
+          errors.push('"socials" must be an object with non-empty string keys "twitter" and "instagram"');
+        }
+      } else if (socials !== null) {
+        errors.push('"socials" must be null because social posts were not requested');
+      }
+
+      if (!isObject(value.seo) || typeof value.seo.title !== "string" || typeof value.seo.description !== "string") {
+        errors.push('"seo" must be an object with string keys "title" and "description"');
+      } else if (!value.seo.title.trim()) {
+        errors.push('"seo.title" must not be empty');
+      }
+      return errors;
+    },
+    coerce(value) {
+      return {
+        description: String(value.description),
+        socials: includeSocials
+          ? { twitter: String(value.socials.twitter), instagram: String(value.socials.instagram) }
+          : null,
+        seo: { title: String(value.seo.title), description: String(value.seo.description) },
+      };
+    },
+  };
+}
+
+/** @type {OutputSchema} */
+export const translationSchema = {
+  name: "translation",
+  keys: ["description"],
+  validate(value) {
+    if (!isObject(value)) return ["response must be a JSON object"];
+    const errors = checkKeys(value, ["description"], ["description"]);
+    if (!isNonEmptyString(value.description) || !textOf(value.description)) {
+      errors.push('"description" must be a non-empty HTML string');
+    }
+    return errors;
+  },
+  coerce(value) {
+    return { description: String(value.description) };
+  },
+};
+
+/**
+ * Schema for alt text covering exactly the given media ids.
+ * @param {string[]} mediaIds
+ * @returns {OutputSchema}
+ */
+export function altTextSchema(mediaIds) {
+  return {
+    name: "alt-text",
+    keys: ["images"],
+    validate(value) {
+      if (!isObject(value)) return ["response must be a JSON object"];
+      const errors = checkKeys(value, ["images"], ["images"]);
+      if (!Array.isArray(value.images)) return [...errors, '"images" must be an array of { "id", "alt" } objects'];
+
+      const seen = new Set();
+      for (const image of value.images) {
+        if (!isObject(image) || typeof image.id !== "string") {
+          errors.push('every entry in "images" must be an object with a string "id"');
+          continue;
+        }
+        if (!mediaIds.includes(image.id)) errors.push(`unknown image id "${image.id}"`);
+        if (seen.has(image.id)) errors.push(`image id "${image.id}" appears more than once`);
+        seen.add(image.id);
+
+        if (!isNonEmptyString(image.alt)) errors.push(`alt text for "${image.id}" must be a non-empty string`);
+        else if (image.alt.trim().length > ALT_TEXT_LIMIT) {
+          errors.push(`alt text for "${image.id}" is longer than ${ALT_TEXT_LIMIT} characters`);
+        } else if (/^(an? )?(image|picture|photo) of\b/i.test(image.alt.trim())) {
+          errors.push(`alt text for "${image.id}" must not start with "image of" or "picture of"`);
+        }
+      }
+      for (const id of mediaIds) {
+        if (!seen.has(id)) errors.push(`missing alt text for image id "${id}"`);
+      }
+      return errors;
+    },
+    coerce(value) {
+      const byId = new Map(value.images.map((image) => [image.id, String(image.alt).trim()]));
+      return { images: mediaIds.map((id) => ({ id, alt: byId.get(id) })) };
+    },
+  };
+}
+
+/** Follow-up turn asking the model to fix only what failed. */
+export function buildRepairPrompt(schema, errors) {
+  return [
+    "Your previous response did not match the required JSON format:",
+    ...errors.map((e) => `- ${e}`),
+    "",
+    `Return the corrected JSON object only, with exactly these keys: ${schema.keys.join(", ")}.`,
+    "Keep everything that was already valid. No Markdown, no explanation.",
+  ].join("\n");
+}
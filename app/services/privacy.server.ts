@@ -0,0 +1,72 @@
+import prisma from "../db.server";
+import { deepseek } from "./deepseek.server";
+
+/**
+ * Shop data purge
+ * - Runs on app/uninstalled and again on shop/redact (48h later), so every
+ *   step is idempotent.
+ * - We store no customer data: products, generated copy and shop settings only.
+ *   The customers/* compliance webhooks therefore have nothing to export or erase.
+ */
+
+export interface PurgeResult {
+  history: number;
+  refinements: number;
+  bulkJobs: number;
+  revisions: number;
+  voices: number;
+  guardrails: number;
+  automationRules: number;
+  drafts: number;
+  usageEvents: number;
+  billing: number;
+  sessions: number;
+  redisKeys: number;
+}
+
+export async function purgeShopData(shop: string): Promise<PurgeResult> {
+  // Stop the worker from writing history for this shop while we delete it
+  await prisma.bulkJob.updateMany({
+    where: { shop, status: { in: ["queued", "running", "paused"] } },
+    data: { status: "cancelled" },
+  });
+
+  await prisma.bulkJobItem.deleteMany({ where: { job: { shop } } });
+  const bulkJobs = await prisma.bulkJob.deleteMany({ where: { shop } });
+  const history = await prisma.generationHistory.deleteMany({ where: { shop } });
+  const refinements = await prisma.refinementTurn.deleteMany({ where: { shop } });
+  const revisions = await prisma.productRevision.deleteMany({ where: { shop } });
+  const voices = await prisma.voiceProfile.deleteMany({ where: { shop } });
+  const guardrails = await prisma.guardrailPolicy.deleteMany({ where: { shop } });
+  // Runs cascade with their rules
+  const automationRules = await prisma.automationRule.deleteMany({ where: { shop } });
+  // Review events cascade with their drafts
+  const drafts = await prisma.descriptionDraft.deleteMany({ where: { shop } });
+  const usageEvents = await prisma.usageEvent.deleteMany({ where: { shop } });
+  const billing = await prisma.shopBilling.deleteMany({ where: { shop } });
+  const topUps = await prisma.creditTopUp.deleteMany({ where: { shop } });
+  const sessions = await prisma.session.deleteMany({ where: { shop } });
+
+  let redisKeys = 0;
+  try {
+    redisKeys = await deepseek.purgeShop(shop);
+  } catch (err) {
+    // Every key we set has a TTL, so anything left behind still expires
+    console.warn("Redis purge failed:", err instanceof Error ? err.message : err);
+  }
+
+  return {
+    history: history.count,
+    refinements: refinements.count,
+    bulkJobs: bulkJobs.count,
+    revisions: revisions.count,
+    voices: voices.count,
+    guardrails: guardrails.count,
+    automationRules: automationRules.count,
+    drafts: drafts.count,
+    usageEvents: usageEvents.count,
+    billing: billing.count + topUps.count,
+    sessions: sessions.count,
+    redisKeys,
+  };
+}
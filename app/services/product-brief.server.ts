@@ -0,0 +1,179 @@
+import type { BriefReference, GenerationMetafield, GenerationProduct } from "./products.server";
+
+/**
+ * Product brief for prompts
+ * - Turns the product, its variants and its typed metafields into short
+ *   "Label: value" lines the model can cite instead of inventing specs.
+ * - Sections are added in priority order until the token budget runs out;
+ *   the old description goes last and is cut to whatever budget is left.
+ */
+
+export const BRIEF_TOKEN_BUDGET = parseInt(process.env.PROMPT_BRIEF_TOKENS ?? "900", 10);
+
+// Close enough for English copy; used only to keep the brief under budget
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Metafields that describe the page rather than the product
+const SKIPPED_METAFIELDS = new Set(["global.title_tag", "global.description_tag"]);
+const SKIPPED_TYPES = new Set(["file_reference", "list.file_reference"]);
+
+const MAX_VARIANTS = 15;
+const MAX_TAGS = 20;
+
+const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+function formatMeasurement(value: unknown) {
+  const m = value as { value?: number | string; unit?: string } | null;
+  if (!m || m.value === undefined) return "";
+  return `${m.value} ${String(m.unit ?? "").toLowerCase().replace(/_/g, " ")}`.trim();
+}
+
+// Rich text is a JSON tree of nodes; keep just the text
+function richTextToPlain(node: unknown): string {
+  if (!node || typeof node !== "object") return "";
+  const { value, children } = node as { value?: string; children?: unknown[] };
+  if (typeof value === "string") return value;
+  return (children ?? []).map(richTextToPlain).filter(Boolean).join(" ");
+}
+
+function formatReference(ref: BriefReference | null | undefined): string {
+  if (!ref) return "";
+  if (ref.__typename !== "Metaobject") return ref.title ?? ref.displayName ?? "";
+
+  const fields = (ref.fields ?? [])
+    .filter((f) => f.value && !f.type.includes("reference"))
+    .map((f) => `${f.key}: ${formatScalar(f.type, f.value!, safeJson(f.value!))}`)
+    .slice(0, 6);
+  return fields.length ? `${ref.displayName} (${fields.join("; ")})` : ref.displayName ?? "";
+}
+
+function safeJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function formatScalar(type: string, raw: string, json: unknown): string {
+  switch (type) {
+    case "dimension":
+    case "weight":
+    case "volume":
+      return formatMeasurement(json);
+    case "rating": {
+      const r = json as { value?: string; scale_max?: string } | null;
+      return r?.value ? `${r.value}/${r.scale_max ?? "5"}` : "";
+    }
+    case "money": {
+      const m = json as { amount?: string; currency_code?: string } | null;
+      return m?.amount ? `${m.amount} ${m.currency_code ?? ""}`.trim() : "";
+    }
+    case "boolean":
+      return raw === "true" ? "yes" : "no";
+    case "rich_text_field":
+      return richTextToPlain(json);
+    case "json":
+      return JSON.stringify(json);
+    default:
+      return raw.replace(/\s+/g, " ").trim();
+  }
+}
+
+/** Human-readable value for one metafield, or "" when there is nothing worth citing. */
+export function formatMetafieldValue(metafield: GenerationMetafield): string {
+  const { type, value, jsonValue } = metafield;
+  if (SKIPPED_TYPES.has(type)) return "";
+
+  if (type.endsWith("_reference")) {
+    if (type.startsWith("list.")) {
+      return (metafield.references?.nodes ?? []).map(formatReference).filter(Boolean).join(", ");
+    }
+    return formatReference(metafield.reference);
+  }
+
+  if (type.startsWith("list.")) {
+    const itemType = type.slice("list.".length);
+    const items = Array.isArray(jsonValue) ? jsonValue : [];
+    return items
+      .map((item) => formatScalar(itemType, typeof item === "string" ? item : JSON.stringify(item), item))
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  return formatScalar(type, value, jsonValue);
+}
+
+const humanize = (key: string) => key.replace(/[_-]+/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+function priceLine(product: GenerationProduct) {
+  const { minVariantPrice: min, maxVariantPrice: max } = product.priceRangeV2 ?? {};
+  if (!min) return "";
+  return min.amount === max?.amount
+    ? `Price: ${min.amount} ${min.currencyCode}`
+    : `Price: ${min.amount}–${max.amount} ${min.currencyCode}`;
+}
+
+/**
+ * Structured product brief for the prompt, at most `budget` tokens (estimated).
+ * Always starts with the `Title:` line.
+ */
+export function buildProductBrief(product: GenerationProduct, budget = BRIEF_TOKEN_BUDGET): string {
+  const specs = (product.metafields?.nodes ?? [])
+    .filter((m) => !SKIPPED_METAFIELDS.has(`${m.namespace}.${m.key}`))
+    .map((m) => {
+      const value = formatMetafieldValue(m);
+      return value ? `- ${humanize(m.key)}: ${clip(value, 300)}` : "";
+    })
+    .filter(Boolean);
+
+  // Options with a single "Default Title" value are Shopify's placeholder, not a real choice
+  const options = (product.options ?? [])
+    .filter((o) => !(o.values.length === 1 && o.values[0] === "Default Title"))
+    .map((o) => `${o.name} (${o.values.join(", ")})`);
+
+  const variants = (product.variants?.nodes ?? [])
+    .filter((v) => v.title !== "Default Title")
+    .slice(0, MAX_VARIANTS)
+    .map((v) => `- ${v.title}${v.sku ? ` [SKU ${v.sku}]` : ""}: ${v.price}`);
+
+  const sections: string[][] = [
+    [`Title: ${product.title ?? "Untitled"}`],
+    [
+      product.vendor ? `Brand/vendor: ${product.vendor}` : "",
+      product.productType ? `Product type: ${product.productType}` : "",
+      priceLine(product),
+    ].filter(Boolean),
+    options.length ? [`Options: ${options.join("; ")}`] : [],
+    product.tags?.length ? [`Tags: ${product.tags.slice(0, MAX_TAGS).join(", ")}`] : [],
+    specs.length ? ["Specs:", ...specs] : [],
+    variants.length ? ["Variants:", ...variants] : [],
+  ];
+
+  const lines: string[] = [];
+  let used = 0;
+  for (const section of sections) {
+    const fitted: string[] = [];
+    let cost = 0;
+    for (const line of section) {
+      const lineCost = estimateTokens(line) + 1;
+      if (used + cost + lineCost > budget) break;
+      fitted.push(line);
+      cost += lineCost;
+    }
+    // A "Specs:" / "Variants:" header with nothing under it is just noise
+    if (fitted.length === 1 && section.length > 1 && fitted[0].endsWith(":")) continue;
+    lines.push(...fitted);
+    used += cost;
+  }
+
+  const oldDescription = (product.description ?? "").replace(/\s+/g, " ").trim();
+  const remaining = (budget - used - 5) * 4;
+  if (oldDescription && remaining > 80) {
+    lines.push(`Old Description: ${clip(oldDescription, remaining)}`);
+  } else if (!oldDescription) {
+    lines.push("Old Description: None");
+  }
+
+  return lines.join("\n");
+}
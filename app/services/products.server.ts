@@ -0,0 +1,692 @@
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+
+// Shared Admin GraphQL helpers for product reads/writes used by the generate
+// route and the bulk worker.
+
+// Only the GraphQL client is needed, which keeps these usable with both
+// authenticate.admin and unauthenticated.admin contexts
+export type AdminClient = Pick<AdminApiContext, "graphql">;
+
+export type ProductSelector = "selection" | "collection" | "tag" | "missing";
+
+// Hard cap on how many products a single bulk job may target
+export const MAX_BULK_PRODUCTS = 5000;
+
+// Fields pulled for a referenced resource, so a metafield can cite it by name
+const REFERENCE_FIELDS = `#graphql
+  fragment BriefReference on MetafieldReference {
+    __typename
+    ... on Metaobject {
+      type
+      displayName
+      fields {
+        key
+        type
+        value
+      }
+    }
+    ... on Product {
+      title
+    }
+    ... on ProductVariant {
+      displayName
+    }
+    ... on Collection {
+      title
+    }
+    ... on Page {
+      title
+    }
+  }
+`;
+
+type Money = { amount: string; currencyCode: string };
+
+export type BriefReference = {
+  __typename: string;
+  type?: string;
+  displayName?: string;
+  title?: string;
+  fields?: { key: string; type: string; value: string | null }[];
+};
+
+export type GenerationMetafield = {
+  namespace: string;
+  key: string;
+  type: string;
+  value: string;
+  jsonValue: unknown;
+  reference: BriefReference | null;
+  references: { nodes: BriefReference[] } | null;
+};
+
+export type GenerationProduct = {
+  id: string;
+  title: string;
+  description: string;
+  descriptionHtml: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  options: { name: string; values: string[] }[];
+  priceRangeV2: { minVariantPrice: Money; maxVariantPrice: Money };
+  variants: { nodes: { title: string; sku: string | null; price: string }[] };
+  metafields: { nodes: GenerationMetafield[] };
+};
+
+export async function fetchProductForGeneration(
+  admin: AdminClient,
+  productId: string
+): Promise<GenerationProduct | null> {
+  const response = await admin.graphql(
+    `#graphql
+      ${REFERENCE_FIELDS}
+      query GetProduct($id: ID!) {
+        product(id: $id) {
+          id
+          title
+          description
+          descriptionHtml
+          vendor
+          productType
+          tags
+          options {
+            name
+            values
+          }
+          priceRangeV2 {
+            minVariantPrice {
+              amount
+              currencyCode
+            }
+            maxVariantPrice {
+              amount
+              currencyCode
+            }
+          }
+          variants(first: 50) {
+            nodes {
+              title
+              sku
+              price
+            }
+          }
+          metafields(first: 50) {
+            nodes {
+              namespace
+              key
+              type
+              value
+              jsonValue
+              reference {
+                ...BriefReference
+              }
+              references(first: 10) {
+                nodes {
+                  ...BriefReference
+                }
+              }
+            }
+          }
+        }
+      }
+    `,
+    { variables: { id: productId } }
+  );
+
+  const data = await response.json();
+  return data.data?.product ?? null;
+}
+
+export async function fetchProductDescription(
+  admin: AdminClient,
+  productId: string
+): Promise<{
+  id: string;
+  title: string;
+  descriptionHtml: string;
+  seo: { title: string | null; description: string | null };
+} | null> {
+  const response = await admin.graphql(
+    `#graphql
+      query GetProductDescription($id: ID!) {
+        product(id: $id) {
+          id
+          title
+          descriptionHtml
+          seo {
+            title
+            description
+          }
+        }
+      }
+    `,
+    { variables: { id: productId } }
+  );
+
+  const data = await response.json();
+  return data.data?.product ?? null;
+}
+
+export type CsvProduct = {
+  id: string;
+  handle: string;
+  title: string;
+  descriptionHtml: string;
+  seo: { title: string | null; description: string | null };
+};
+
+/**
+ * Looks products up by GID and by handle for CSV export and import.
+ * Unknown ids and handles are simply missing from the result.
+ */
+export async function fetchProductsForCsv(
+  admin: AdminClient,
+  refs: { ids?: string[]; handles?: string[] }
+): Promise<CsvProduct[]> {
+  const found: CsvProduct[] = [];
+  const ids = [...new Set(refs.ids ?? [])];
+  const handles = [...new Set(refs.handles ?? [])];
+
+  for (let i = 0; i < ids.length; i += 100) {
+    const response = await admin.graphql(
+      `#graphql
+        query CsvProductsByIds($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              id
+              handle
+              title
+              descriptionHtml
+              seo {
+                title
+                description
+              }
+            }
+          }
+        }
+      `,
+      { variables: { ids: ids.slice(i, i + 100) } }
+    );
+    const data = await response.json();
+    for (const node of data.data?.nodes ?? []) {
+      if (node?.id) found.push(node);
+    }
+  }
+
+  // Handles are unique per shop, so an OR search returns at most one product each
+  for (let i = 0; i < handles.length; i += 50) {
+    const batch = handles.slice(i, i + 50);
+    const response = await admin.graphql(
+      `#graphql
+        query CsvProductsByHandles($query: String!, $first: Int!) {
+          products(first: $first, query: $query) {
+            nodes {
+              id
+              handle
+              title
+              descriptionHtml
+              seo {
+                title
+                description
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          first: batch.length,
+          query: batch.map((handle) => `handle:'${handle.replace(/'/g, "\\'")}'`).join(" OR "),
+        },
+      }
+    );
+    const data = await response.json();
+    found.push(...(data.data?.products?.nodes ?? []));
+  }
+
+  return found;
+}
+
+export async function updateProductDescription(
+  admin: AdminClient,
+  productId: string,
+  descriptionHtml: string,
+  seo?: { title?: string | null; description?: string | null } | null
+): Promise<{ userErrors: { field?: string[]; message: string }[] }> {
+  const response = await admin.graphql(
+    `#graphql
+      mutation UpdateProduct($input: ProductInput!) {
+        productUpdate(input: $input) {
+          product {
+            id
+            descriptionHtml
+            seo {
+              title
+              description
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        input: {
+          id: productId,
+          descriptionHtml: descriptionHtml,
+          // Written in the same mutation so body and snippet never drift apart
+          ...(seo ? { seo: { title: seo.title ?? null, description: seo.description ?? null } } : {}),
+        },
+      },
+    }
+  );
+
+  const responseJson = await response.json();
+  return { userErrors: responseJson.data?.productUpdate?.userErrors ?? [] };
+}
+
+type ProductRef = { id: string; title: string };
+
+type ProductPage<T> = {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+};
+
+async function paginateProducts(
+  admin: AdminClient,
+  query: string | null,
+  keep: (node: ProductRef & { description: string }) => boolean = () => true
+): Promise<ProductRef[]> {
+  const found: ProductRef[] = [];
+  let after: string | null = null;
+
+  do {
+    const response: Response = await admin.graphql(
+      `#graphql
+        query BulkProducts($query: String, $after: String) {
+          products(first: 250, after: $after, query: $query) {
+            nodes {
+              id
+              title
+              description
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      `,
+      { variables: { query, after } }
+    );
+    const data = await response.json();
+    const page: ProductPage<ProductRef & { description: string }> | undefined = data.data?.products;
+    for (const node of page?.nodes ?? []) {
+      if (keep(node)) found.push({ id: node.id, title: node.title });
+    }
+    after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (after && found.length < MAX_BULK_PRODUCTS);
+
+  return found.slice(0, MAX_BULK_PRODUCTS);
+}
+
+async function collectionProducts(admin: AdminClient, collectionId: string): Promise<ProductRef[]> {
+  const found: ProductRef[] = [];
+  let after: string | null = null;
+
+  do {
+    const response: Response = await admin.graphql(
+      `#graphql
+        query CollectionProducts($id: ID!, $after: String) {
+          collection(id: $id) {
+            products(first: 250, after: $after) {
+              nodes {
+                id
+                title
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+            }
+          }
+        }
+      `,
+      { variables: { id: collectionId, after } }
+    );
+    const data = await response.json();
+    const page: ProductPage<ProductRef> | undefined = data.data?.collection?.products;
+    found.push(...(page?.nodes ?? []));
+    after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (after && found.length < MAX_BULK_PRODUCTS);
+
+  return found.slice(0, MAX_BULK_PRODUCTS);
+}
+
+async function productsByIds(admin: AdminClient, ids: string[]): Promise<ProductRef[]> {
+  const found: ProductRef[] = [];
+  for (let i = 0; i < ids.length; i += 250) {
+    const response = await admin.graphql(
+      `#graphql
+        query ProductsByIds($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              id
+              title
+            }
+          }
+        }
+      `,
+      { variables: { ids: ids.slice(i, i + 250) } }
+    );
+    const data = await response.json();
+    for (const node of data.data?.nodes ?? []) {
+      if (node?.id) found.push(node);
+    }
+  }
+  return found.slice(0, MAX_BULK_PRODUCTS);
+}
+
+/**
+ * Resolves a bulk selector to the concrete list of products it targets.
+ * `value` is a comma-separated list of product GIDs for "selection",
+ * a collection GID for "collection" and a tag name for "tag".
+ */
+export async function resolveBulkProducts(
+  admin: AdminClient,
+  selector: ProductSelector,
+  value: string
+): Promise<ProductRef[]> {
+  switch (selector) {
+    case "selection":
+      return productsByIds(
+        admin,
+        value.split(",").map((id) => id.trim()).filter(Boolean)
+      );
+    case "collection":
+      return collectionProducts(admin, value);
+    case "tag":
+      return paginateProducts(admin, `tag:'${value.replace(/'/g, "\\'")}'`);
+    case "missing":
+      // The search syntax can't filter on an empty body, so filter client-side
+      return paginateProducts(admin, null, (node) => !node.description?.trim());
+    default:
+      throw new Error(`Unknown product selector: ${selector}`);
+  }
+}
+
+export type DescriptionFilter = "" | "missing" | "short";
+
+export interface ProductSearch {
+  query: string;
+  collectionId: string;
+  vendor: string;
+  productType: string;
+  status: "" | "active" | "draft" | "archived";
+  description: DescriptionFilter;
+}
+
+export type ProductListItem = {
+  id: string;
+  title: string;
+  handle: string;
+  status: string;
+  description: string;
+  metafields: { edges: { node: { key: string; namespace: string } }[] };
+};
+
+export interface ProductListPage {
+  products: ProductListItem[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+}
+
+export const PRODUCT_PAGE_SIZE = 20;
+
+// Plain-text length under which a description counts as "short"
+export const SHORT_DESCRIPTION_CHARS = 120;
+
+// Description filters scan client-side; cap how far one page request may scan
+const MAX_SCAN_BATCHES = 10;
+
+const quoteSearchValue = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/** Builds the Shopify `query:` search string; null when nothing is filtered. */
+export function buildProductQuery(search: ProductSearch): string | null {
+  const parts: string[] = [];
+  if (search.query.trim()) parts.push(search.query.trim());
+  if (search.collectionId) parts.push(`collection_id:${search.collectionId.split("/").pop()}`);
+  if (search.vendor.trim()) parts.push(`vendor:${quoteSearchValue(search.vendor.trim())}`);
+  if (search.productType.trim()) parts.push(`product_type:${quoteSearchValue(search.productType.trim())}`);
+  if (search.status) parts.push(`status:${search.status}`);
+  return parts.length > 0 ? parts.join(" AND ") : null;
+}
+
+function keepForDescription(filter: DescriptionFilter, description: string) {
+  const length = description?.trim().length ?? 0;
+  if (filter === "missing") return length === 0;
+  if (filter === "short") return length < SHORT_DESCRIPTION_CHARS;
+  return true;
+}
+
+/**
+ * One page of products for the Dashboard. Pass `after` for the next page or
+ * `before` for the previous one, using the cursors from the last page's pageInfo.
+ */
+export async function searchProducts(
+  admin: AdminClient,
+  search: ProductSearch,
+  cursor: { after?: string | null; before?: string | null } = {}
+): Promise<ProductListPage> {
+  const forward = !cursor.before;
+  const query = buildProductQuery(search);
+  const batchSize = search.description ? 50 : PRODUCT_PAGE_SIZE;
+
+  const kept: { node: ProductListItem; cursor: string }[] = [];
+  let scanCursor: string | null = (forward ? cursor.after : cursor.before) ?? null;
+  let more = true;
+  let leftover = false;
+  // First product looked at, for paging back from a page where nothing was kept
+  let firstScanned: string | null = null;
+
+  for (let batch = 0; batch < MAX_SCAN_BATCHES && more && kept.length < PRODUCT_PAGE_SIZE; batch++) {
+    const response: Response = await admin.graphql(
+      `#graphql
+        query DashboardProducts($first: Int, $last: Int, $after: String, $before: String, $query: String) {
+          products(first: $first, last: $last, after: $after, before: $before, query: $query, sortKey: TITLE) {
+            edges {
+              cursor
+              node {
+                id
+                title
+                handle
+                status
+                description
+                metafields(first: 10) {
+                  edges {
+                    node {
+                      key
+                      namespace
+                    }
+                  }
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              startCursor
+              endCursor
+            }
+          }
+        }
+      `,
+      {
+        variables: forward
+          ? { first: batchSize, after: scanCursor, query }
+          : { last: batchSize, before: scanCursor, query },
+      }
+    );
+    const data = await response.json();
+    const connection = data.data?.products;
+    const edges: { node: ProductListItem; cursor: string }[] = connection?.edges ?? [];
+
+    // Walk away from the cursor so a partial batch resumes at the right product
+    const ordered = forward ? edges : [...edges].reverse();
+    firstScanned ??= ordered[0]?.cursor ?? null;
+    for (let i = 0; i < ordered.length; i++) {
+      if (kept.length === PRODUCT_PAGE_SIZE) {
+        leftover = true;
+        break;
+      }
+      if (keepForDescription(search.description, ordered[i].node.description)) kept.push(ordered[i]);
+    }
+
+    more = Boolean(forward ? connection?.pageInfo?.hasNextPage : connection?.pageInfo?.hasPreviousPage);
+    scanCursor = forward ? connection?.pageInfo?.endCursor ?? null : connection?.pageInfo?.startCursor ?? null;
+  }
+
+  // Resume after the last kept product if the page filled mid-batch, else after
+  // everything scanned, so a run of filtered-out batches still moves on
+  const resumeCursor = (leftover ? kept[kept.length - 1]?.cursor : scanCursor) ?? null;
+  if (!forward) kept.reverse();
+
+  return {
+    products: kept.map((edge) => edge.node),
+    pageInfo: {
+      hasNextPage: forward ? leftover || more : true,
+      hasPreviousPage: forward ? Boolean(cursor.after) : leftover || more,
+      startCursor: forward ? kept[0]?.cursor ?? firstScanned : resumeCursor,
+      endCursor: forward ? resumeCursor : kept[kept.length - 1]?.cursor ?? firstScanned,
+    },
+  };
+}
+
+export async function listCollections(admin: AdminClient): Promise<{ id: string; title: string }[]> {
+  const response = await admin.graphql(
+    `#graphql
+      query DashboardCollections {
+        collections(first: 250, sortKey: TITLE) {
+          nodes {
+            id
+            title
+          }
+        }
+      }
+    `
+  );
+  const data = await response.json();
+  return data.data?.collections?.nodes ?? [];
+}
+
+/** Whether the product is in the collection (smart collections included). */
+export async function isProductInCollection(
+  admin: AdminClient,
+  productId: string,
+  collectionId: string
+): Promise<boolean> {
+  const response = await admin.graphql(
+    `#graphql
+      query ProductInCollection($id: ID!, $collectionId: ID!) {
+        product(id: $id) {
+          inCollection(id: $collectionId)
+        }
+      }
+    `,
+    { variables: { id: productId, collectionId } }
+  );
+  const data = await response.json();
+  return Boolean(data.data?.product?.inCollection);
+}
+
+export type ProductImage = {
+  id: string;
+  alt: string;
+  url: string;
+};
+
+/** The product's images (videos and 3D models have no alt text to write). */
+export async function fetchProductMedia(
+  admin: AdminClient,
+  productId: string
+): Promise<{ id: string; title: string; images: ProductImage[] } | null> {
+  const response = await admin.graphql(
+    `#graphql
+      query ProductMedia($id: ID!) {
+        product(id: $id) {
+          id
+          title
+          media(first: 50) {
+            nodes {
+              id
+              alt
+              ... on MediaImage {
+                image {
+                  url(transform: { maxWidth: 768 })
+                }
+              }
+            }
+          }
+        }
+      }
+    `,
+    { variables: { id: productId } }
+  );
+
+  const data = await response.json();
+  const product = data.data?.product;
+  if (!product) return null;
+
+  const images: ProductImage[] = [];
+  for (const node of product.media?.nodes ?? []) {
+    if (node.image?.url) images.push({ id: node.id, alt: node.alt ?? "", url: node.image.url });
+  }
+  return { id: product.id, title: product.title, images };
+}
+
+/**
+ * Writes alt text with `fileUpdate` (product media are files;
+ * `productUpdateMedia` is deprecated). Only the product's own images are
+ * accepted, since `fileUpdate` would take any file in the shop.
+ */
+export async function updateMediaAlt(
+  admin: AdminClient,
+  productId: string,
+  media: { id: string; alt: string }[]
+): Promise<{ userErrors: { field?: string[]; message: string }[] }> {
+  const product = await fetchProductMedia(admin, productId);
+  if (!product) return { userErrors: [{ message: "Product not found" }] };
+  const own = new Set(product.images.map((image) => image.id));
+  if (media.some((item) => !own.has(item.id))) {
+    return { userErrors: [{ message: "Image does not belong to this product" }] };
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+      mutation UpdateMediaAlt($files: [FileUpdateInput!]!) {
+        fileUpdate(files: $files) {
+          files {
+            id
+            alt
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    { variables: { files: media.map((item) => ({ id: item.id, alt: item.alt })) } }
+  );
+
+  const responseJson = await response.json();
+  return { userErrors: responseJson.data?.fileUpdate?.userErrors ?? [] };
+}
@@ -0,0 +1,81 @@
+import prisma from "../db.server";
+import type { SeoFields } from "../utils/seo";
+
+/**
+ * Refinement threads
+ * - A thread belongs to one draft, i.e. one GenerationHistory row, and holds
+ *   every follow-up instruction with the description it produced.
+ * - Turns are never rewritten; restoring an earlier one happens in the editor,
+ *   and the next instruction refines whatever the editor holds.
+ */
+
+export const MAX_INSTRUCTION_LENGTH = 500;
+
+export interface RefinementTurn {
+  id: string;
+  historyId: string;
+  instruction: string;
+  description: string;
+  socials?: { twitter?: string; instagram?: string };
+  seo?: SeoFields;
+  createdAt: string;
+}
+
+type RefinementTurnRecord = {
+  id: string;
+  historyId: string;
+  instruction: string;
+  description: string;
+  socials: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  createdAt: Date;
+};
+
+function toTurn(record: RefinementTurnRecord): RefinementTurn {
+  let socials: RefinementTurn["socials"];
+  try {
+    socials = record.socials ? JSON.parse(record.socials) : undefined;
+  } catch {
+    socials = undefined;
+  }
+  return {
+    id: record.id,
+    historyId: record.historyId,
+    instruction: record.instruction,
+    description: record.description,
+    socials,
+    seo:
+      record.seoTitle || record.seoDescription
+        ? { title: record.seoTitle ?? "", description: record.seoDescription ?? "" }
+        : undefined,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/** The draft's thread, oldest turn first. */
+export async function listRefinements(shop: string, historyId: string): Promise<RefinementTurn[]> {
+  const records: RefinementTurnRecord[] = await prisma.refinementTurn.findMany({
+    where: { shop, historyId },
+    orderBy: { createdAt: "asc" },
+  });
+  return records.map(toTurn);
+}
+
+export async function addRefinement(
+  shop: string,
+  turn: Omit<RefinementTurn, "id" | "createdAt">
+): Promise<RefinementTurn> {
+  const record: RefinementTurnRecord = await prisma.refinementTurn.create({
+    data: {
+      shop,
+      historyId: turn.historyId,
+      instruction: turn.instruction,
+      description: turn.description,
+      socials: turn.socials ? JSON.stringify(turn.socials) : null,
+      seoTitle: turn.seo?.title || null,
+      seoDescription: turn.seo?.description || null,
+    },
+  });
+  return toTurn(record);
+}
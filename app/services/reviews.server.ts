@@ -0,0 +1,319 @@
+import type { Session } from "@shopify/shopify-app-remix/server";
+import prisma from "../db.server";
+import { markChosenCandidates } from "./history.server";
+import { saveDescriptionWithRevision } from "./revisions.server";
+import { registerDescriptionTranslations, type TranslationResult } from "./translations.server";
+import type { AdminClient } from "./products.server";
+import type { SeoFields } from "../utils/seo";
+
+/**
+ * Draft review
+ * - "Submit for review" on the Dashboard stores the edited description as a
+ *   pending draft. A reviewer approves or rejects it on the Approvals page.
+ * - Only approved drafts can be published, and what is published is the stored
+ *   draft, never HTML sent with the publish request. Translations travel with
+ *   the draft and are registered after it, against the new description.
+ * - Whoever submitted a draft cannot approve it; bulk jobs submit as the staff
+ *   member who started them, automation rules as the rule.
+ * - Every state change is a DraftEvent carrying the staff member from the
+ *   online session.
+ */
+
+export type DraftStatus = "pending" | "approved" | "rejected";
+export type DraftAction = "submitted" | "approved" | "rejected" | "published";
+
+export interface Staff {
+  // Shopify user id; missing for automation and older events
+  id?: string;
+  name: string;
+  email?: string;
+}
+
+export interface DraftTranslation {
+  locale: string;
+  // Must already be sanitized
+  descriptionHtml: string;
+}
+
+export type ReviewResult =
+  | { reviewed: true }
+  | { reviewed: false; reason: "comment_required" | "own_draft" | "not_reviewable" };
+
+export interface DraftEvent {
+  id: string;
+  action: DraftAction;
+  comment?: string;
+  actorId?: string;
+  actorName: string;
+  actorEmail?: string;
+  createdAt: string;
+}
+
+export interface Draft {
+  id: string;
+  productId: string;
+  productTitle: string;
+  historyId?: string;
+  descriptionHtml: string;
+  seo?: SeoFields;
+  translations: DraftTranslation[];
+  status: DraftStatus;
+  publishedAt?: string;
+  events: DraftEvent[];
+  createdAt: string;
+}
+
+export interface NewDraft {
+  productId: string;
+  productTitle: string;
+  historyId?: string;
+  candidateGroup?: string;
+  chosenIds?: string[];
+  // Must already be sanitized
+  descriptionHtml: string;
+  seo?: SeoFields | null;
+  translations?: DraftTranslation[];
+}
+
+type DraftEventRecord = {
+  id: string;
+  draftId: string;
+  action: DraftAction;
+  comment: string | null;
+  actorId: string | null;
+  actorName: string;
+  actorEmail: string | null;
+  createdAt: Date;
+};
+
+type DraftRecord = {
+  id: string;
+  shop: string;
+  productId: string;
+  productTitle: string;
+  historyId: string | null;
+  candidateGroup: string | null;
+  chosenIds: string | null;
+  descriptionHtml: string;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  translations: string | null;
+  status: DraftStatus;
+  publishedAt: Date | null;
+  createdAt: Date;
+  events?: DraftEventRecord[];
+};
+
+function parseTranslations(raw: string | null): DraftTranslation[] {
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+function toDraft(record: DraftRecord): Draft {
+  return {
+    id: record.id,
+    productId: record.productId,
+    productTitle: record.productTitle,
+    historyId: record.historyId ?? undefined,
+    descriptionHtml: record.descriptionHtml,
+    seo:
+      record.seoTitle || record.seoDescription
+        ? { title: record.seoTitle ?? "", description: record.seoDescription ?? "" }
+        : undefined,
+    translations: parseTranslations(record.translations),
+    status: record.status,
+    publishedAt: record.publishedAt?.toISOString(),
+    events: (record.events ?? []).map((event) => ({
+      id: event.id,
+      action: event.action,
+      comment: event.comment ?? undefined,
+      actorId: event.actorId ?? undefined,
+      actorName: event.actorName,
+      actorEmail: event.actorEmail ?? undefined,
+      createdAt: event.createdAt.toISOString(),
+    })),
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+const withEvents = { events: { orderBy: { createdAt: "asc" as const } } };
+const DRAFT_PAGE_SIZE = 100;
+
+/** The staff member behind an online session (offline sessions have no user). */
+export function staffFromSession(session: Session): Staff {
+  const user = session.onlineAccessInfo?.associated_user;
+  const name = [user?.first_name, user?.last_name].filter(Boolean).join(" ");
+  return {
+    id: user?.id ? String(user.id) : undefined,
+    name: name || user?.email || "Unknown staff member",
+    email: user?.email || undefined,
+  };
+}
+
+// The user id when both sides have one, else the email; a name alone proves nothing
+function isSameStaff(a: Staff, b: Staff): boolean {
+  if (a.id && b.id) return a.id === b.id;
+  if (a.email && b.email) return a.email.toLowerCase() === b.email.toLowerCase();
+  return false;
+}
+
+/** Whether `staff` submitted the draft, and so may not approve it. */
+export function isOwnDraft(draft: Draft, staff: Staff): boolean {
+  const submitted = draft.events.find((event) => event.action === "submitted");
+  return Boolean(
+    submitted &&
+      isSameStaff({ id: submitted.actorId, name: submitted.actorName, email: submitted.actorEmail }, staff)
+  );
+}
+
+function eventData(action: DraftAction, staff: Staff, comment?: string) {
+  return {
+    action,
+    comment: comment || null,
+    actorId: staff.id ?? null,
+    actorName: staff.name,
+    actorEmail: staff.email ?? null,
+  };
+}
+
+export async function submitDraft(shop: string, staff: Staff, draft: NewDraft): Promise<Draft> {
+  const record: DraftRecord = await prisma.descriptionDraft.create({
+    data: {
+      shop,
+      productId: draft.productId,
+      productTitle: draft.productTitle,
+      historyId: draft.historyId ?? null,
+      candidateGroup: draft.candidateGroup ?? null,
+      chosenIds: draft.chosenIds?.length ? draft.chosenIds.join(",") : null,
+      descriptionHtml: draft.descriptionHtml,
+      seoTitle: draft.seo?.title || null,
+      seoDescription: draft.seo?.description || null,
+      translations: draft.translations?.length ? JSON.stringify(draft.translations) : null,
+      events: { create: eventData("submitted", staff) },
+    },
+    include: withEvents,
+  });
+  return toDraft(record);
+}
+
+export async function listDrafts(shop: string, status?: DraftStatus): Promise<Draft[]> {
+  const records: DraftRecord[] = await prisma.descriptionDraft.findMany({
+    where: status ? { shop, status } : { shop },
+    // The queue is worked oldest first
+    orderBy: { createdAt: status === "pending" ? "asc" : "desc" },
+    include: withEvents,
+    take: DRAFT_PAGE_SIZE,
+  });
+  return records.map(toDraft);
+}
+
+/** Every draft of the shop, newest first, read in pages; for the CSV export. */
+export async function listAllDrafts(shop: string): Promise<Draft[]> {
+  const drafts: Draft[] = [];
+  let cursor: string | null = null;
+  do {
+    const records: DraftRecord[] = await prisma.descriptionDraft.findMany({
+      where: { shop },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      include: withEvents,
+      take: DRAFT_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    drafts.push(...records.map(toDraft));
+    cursor = records.length === DRAFT_PAGE_SIZE ? records[records.length - 1].id : null;
+  } while (cursor);
+  return drafts;
+}
+
+export async function getDraft(shop: string, id: string): Promise<Draft | null> {
+  const record: DraftRecord | null = await prisma.descriptionDraft.findFirst({
+    where: { id, shop },
+    include: withEvents,
+  });
+  return record ? toDraft(record) : null;
+}
+
+/**
+ * Approves or rejects a draft. Rejecting needs a comment, approving needs
+ * someone other than the submitter, and a published draft can no longer
+ * change state.
+ */
+export async function reviewDraft(
+  shop: string,
+  id: string,
+  staff: Staff,
+  decision: "approved" | "rejected",
+  comment = ""
+): Promise<ReviewResult> {
+  if (decision === "rejected" && !comment.trim()) return { reviewed: false, reason: "comment_required" };
+
+  if (decision === "approved") {
+    const draft = await getDraft(shop, id);
+    if (draft && isOwnDraft(draft, staff)) return { reviewed: false, reason: "own_draft" };
+  }
+
+  const { count } = await prisma.descriptionDraft.updateMany({
+    where: { id, shop, publishedAt: null, status: { not: decision } },
+    data: { status: decision },
+  });
+  if (count === 0) return { reviewed: false, reason: "not_reviewable" };
+
+  await prisma.draftEvent.create({ data: { draftId: id, ...eventData(decision, staff, comment.trim()) } });
+  return { reviewed: true };
+}
+
+/**
+ * Writes an approved draft to the product (with a revision snapshot), then
+ * registers its translations against the new description, and records who
+ * published it. Anything else is refused. The draft is claimed by setting
+ * `publishedAt` before the write, so two concurrent publishes cannot both save;
+ * the claim is released when the save fails.
+ */
+export async function publishDraft(
+  admin: AdminClient,
+  shop: string,
+  id: string,
+  staff: Staff
+): Promise<{ userErrors: { message: string }[]; translations: TranslationResult[] }> {
+  const record: DraftRecord | null = await prisma.descriptionDraft.findFirst({ where: { id, shop } });
+  if (!record || record.status !== "approved") {
+    return { userErrors: [{ message: "Only approved drafts can be published" }], translations: [] };
+  }
+
+  const { count } = await prisma.descriptionDraft.updateMany({
+    where: { id, shop, status: "approved", publishedAt: null },
+    data: { publishedAt: new Date() },
+  });
+  if (count === 0) return { userErrors: [{ message: "This draft is already published" }], translations: [] };
+
+  const release = () => prisma.descriptionDraft.updateMany({ where: { id, shop }, data: { publishedAt: null } });
+  let userErrors: { message: string }[];
+  try {
+    ({ userErrors } = await saveDescriptionWithRevision(admin, shop, record.productId, record.descriptionHtml, {
+      seo: record.seoTitle || record.seoDescription
+        ? { title: record.seoTitle ?? "", description: record.seoDescription ?? "" }
+        : null,
+    }));
+  } catch (err) {
+    await release();
+    throw err;
+  }
+  if (userErrors.length > 0) {
+    await release();
+    return { userErrors, translations: [] };
+  }
+
+  // Registered after the save, so they are keyed to the digest of the published description
+  const pending = parseTranslations(record.translations);
+  const translations = pending.length ? await registerDescriptionTranslations(admin, record.productId, pending) : [];
+
+  await prisma.draftEvent.create({ data: { draftId: id, ...eventData("published", staff) } });
+  if (record.candidateGroup && record.chosenIds) {
+    await markChosenCandidates(shop, record.candidateGroup, record.chosenIds.split(","));
+  }
+  return { userErrors: [], translations };
+}
@@ -0,0 +1,189 @@
+import prisma from "../db.server";
+import { ensureRedis, redis } from "./deepseek.server";
+import {
+  fetchProductDescription,
+  updateProductDescription,
+  type AdminClient,
+} from "./products.server";
+import type { SeoFields } from "../utils/seo";
+
+/**
+ * Product description revisions
+ * - Every save snapshots the live descriptionHtml first, so any save
+ *   (including each product in a bulk job) can be rolled back.
+ * - Restoring is itself a save, so a restore can be undone too.
+ * - Saves leave a short-lived Redis marker so product webhooks can tell this
+ *   app's own writes from merchant edits (see automation.server.ts).
+ */
+
+export type RevisionSource = "save" | "bulk" | "restore" | "automation" | "import";
+
+// Long enough to cover Shopify's webhook delivery delay
+const APP_WRITE_TTL_SECONDS = 300;
+const appWriteKey = (shop: string, productId: string) => `deepseek:appwrite:${shop}:${productId}`;
+
+/** Whether this app saved the product's description in the last few minutes. */
+export async function wasRecentlySavedByApp(shop: string, productId: string): Promise<boolean> {
+  if (!(await ensureRedis())) return false;
+  try {
+    return (await redis.exists(appWriteKey(shop, productId))) === 1;
+  } catch {
+    return false;
+  }
+}
+
+export interface Revision {
+  id: string;
+  productId: string;
+  productTitle: string;
+  descriptionHtml: string;
+  seoTitle?: string;
+  seoDescription?: string;
+  source: RevisionSource;
+  bulkJobId?: string;
+  restoredAt?: string;
+  createdAt: string;
+}
+
+type RevisionRecord = {
+  id: string;
+  shop: string;
+  productId: string;
+  productTitle: string;
+  descriptionHtml: string;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  source: RevisionSource;
+  bulkJobId: string | null;
+  restoredAt: Date | null;
+  createdAt: Date;
+};
+
+function toRevision(record: RevisionRecord): Revision {
+  return {
+    id: record.id,
+    productId: record.productId,
+    productTitle: record.productTitle,
+    descriptionHtml: record.descriptionHtml,
+    seoTitle: record.seoTitle ?? undefined,
+    seoDescription: record.seoDescription ?? undefined,
+    source: record.source,
+    bulkJobId: record.bulkJobId ?? undefined,
+    restoredAt: record.restoredAt?.toISOString(),
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Snapshots the product's current description and SEO fields, then writes the
+ * new ones. Returns the Shopify userErrors from the update (empty on success).
+ */
+export async function saveDescriptionWithRevision(
+  admin: AdminClient,
+  shop: string,
+  productId: string,
+  descriptionHtml: string,
+  opts: { source?: RevisionSource; bulkJobId?: string; seo?: SeoFields | null } = {}
+) {
+  const current = await fetchProductDescription(admin, productId);
+  if (!current) return { userErrors: [{ message: "Product not found" }] };
+
+  const revision: RevisionRecord = await prisma.productRevision.create({
+    data: {
+      shop,
+      productId: current.id,
+      productTitle: current.title,
+      descriptionHtml: current.descriptionHtml ?? "",
+      seoTitle: current.seo?.title ?? null,
+      seoDescription: current.seo?.description ?? null,
+      source: opts.source ?? "save",
+      bulkJobId: opts.bulkJobId ?? null,
+    },
+  });
+
+  const result = await updateProductDescription(admin, productId, descriptionHtml, opts.seo);
+
+  // Nothing changed on the product, so the snapshot would only be noise
+  if (result.userErrors.length > 0) {
+    await prisma.productRevision.delete({ where: { id: revision.id } });
+  } else if (await ensureRedis()) {
+    await redis.set(appWriteKey(shop, current.id), "1", "EX", APP_WRITE_TTL_SECONDS).catch(() => null);
+  }
+
+  return result;
+}
+
+export async function listRevisions(shop: string, productId?: string): Promise<Revision[]> {
+  const records: RevisionRecord[] = await prisma.productRevision.findMany({
+    where: productId ? { shop, productId } : { shop },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+  });
+  return records.map(toRevision);
+}
+
+export async function restoreRevision(admin: AdminClient, shop: string, revisionId: string) {
+  const revision: RevisionRecord | null = await prisma.productRevision.findFirst({
+    where: { id: revisionId, shop },
+  });
+  if (!revision) return { userErrors: [{ message: "Revision not found" }] };
+
+  const result = await saveDescriptionWithRevision(
+    admin,
+    shop,
+    revision.productId,
+    revision.descriptionHtml,
+    {
+      source: "restore",
+      // Snapshots taken before SEO was tracked leave the product's SEO alone
+      seo:
+        revision.seoTitle !== null || revision.seoDescription !== null
+          ? { title: revision.seoTitle ?? "", description: revision.seoDescription ?? "" }
+          : null,
+    }
+  );
+
+  if (result.userErrors.length === 0) {
+    await prisma.productRevision.update({
+      where: { id: revision.id },
+      data: { restoredAt: new Date() },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Restores every product a bulk job published back to its pre-job description.
+ * Returns how many products were restored and which failed.
+ */
+export async function revertBulkJob(admin: AdminClient, shop: string, bulkJobId: string) {
+  const revisions: RevisionRecord[] = await prisma.productRevision.findMany({
+    where: { shop, bulkJobId, restoredAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Only the oldest snapshot per product reflects the pre-job state
+  const firstPerProduct = new Map<string, RevisionRecord>();
+  for (const revision of revisions) {
+    if (!firstPerProduct.has(revision.productId)) firstPerProduct.set(revision.productId, revision);
+  }
+
+  let restored = 0;
+  const failed: { productTitle: string; message: string }[] = [];
+  for (const revision of firstPerProduct.values()) {
+    const { userErrors } = await restoreRevision(admin, shop, revision.id);
+    if (userErrors.length > 0) {
+      failed.push({ productTitle: revision.productTitle, message: userErrors[0].message });
+      continue;
+    }
+    // Later snapshots from retries are covered by this restore; marking them ends "Revert bulk save"
+    await prisma.productRevision.updateMany({
+      where: { shop, bulkJobId, productId: revision.productId, restoredAt: null },
+      data: { restoredAt: new Date() },
+    });
+    restored++;
+  }
+
+  return { restored, failed };
+}
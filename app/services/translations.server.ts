@@ -0,0 +1,115 @@
+import type { AdminClient } from "./products.server";
+
+/**
+ * Shopify Translations API helpers
+ * - Localized descriptions are registered against the product's `body_html`
+ *   translatable content, which is keyed by the digest of the current
+ *   primary-language description. Save the primary description first, or the
+ *   translations are attached to the old copy and marked outdated.
+ */
+
+export interface ShopLocale {
+  locale: string;
+  name: string;
+  primary: boolean;
+}
+
+export interface TranslationResult {
+  locale: string;
+  status: "published" | "error";
+  message?: string;
+}
+
+export async function getPublishedLocales(admin: AdminClient): Promise<ShopLocale[]> {
+  const response = await admin.graphql(
+    `#graphql
+      query ShopLocales {
+        shopLocales(published: true) {
+          locale
+          name
+          primary
+        }
+      }
+    `
+  );
+
+  const data = await response.json();
+  return data.data?.shopLocales ?? [];
+}
+
+async function getBodyHtmlDigest(admin: AdminClient, productId: string): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+      query ProductTranslatableContent($resourceId: ID!) {
+        translatableResource(resourceId: $resourceId) {
+          translatableContent {
+            key
+            digest
+          }
+        }
+      }
+    `,
+    { variables: { resourceId: productId } }
+  );
+
+  const data = await response.json();
+  const content: { key: string; digest: string }[] =
+    data.data?.translatableResource?.translatableContent ?? [];
+  return content.find((c) => c.key === "body_html")?.digest ?? null;
+}
+
+/**
+ * Registers one localized description per locale against the live body_html.
+ */
+export async function registerDescriptionTranslations(
+  admin: AdminClient,
+  productId: string,
+  translations: { locale: string; descriptionHtml: string }[]
+): Promise<TranslationResult[]> {
+  const digest = await getBodyHtmlDigest(admin, productId);
+  if (!digest) {
+    return translations.map(({ locale }) => ({
+      locale,
+      status: "error",
+      message: "Product has no description to translate yet",
+    }));
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+      mutation RegisterTranslations($resourceId: ID!, $translations: [TranslationInput!]!) {
+        translationsRegister(resourceId: $resourceId, translations: $translations) {
+          translations {
+            locale
+            key
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        resourceId: productId,
+        translations: translations.map(({ locale, descriptionHtml }) => ({
+          locale,
+          key: "body_html",
+          value: descriptionHtml,
+          translatableContentDigest: digest,
+        })),
+      },
+    }
+  );
+
+  const data = await response.json();
+  const registered: { locale: string }[] = data.data?.translationsRegister?.translations ?? [];
+  const userErrors: { message: string }[] = data.data?.translationsRegister?.userErrors ?? [];
+
+  return translations.map(({ locale }) =>
+    registered.some((t) => t.locale === locale)
+      ? { locale, status: "published" }
+      : { locale, status: "error", message: userErrors[0]?.message ?? "Translation was not registered" }
+  );
+}
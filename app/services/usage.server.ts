@@ -0,0 +1,151 @@
+import prisma from "../db.server";
+
+/**
+ * Usage ledger
+ * - One row per AI call (generation, refinement, translation or alt text), successful or not.
+ * - Successful rows are what counts against the monthly quota; the Redis
+ *   counter in DeepSeekService is only a cache in front of `countMonthlyUsage`.
+ * - Months are UTC calendar months, matching the Redis usage key.
+ */
+
+export type UsageKind = "generate" | "refine" | "translate" | "alt_text";
+export type UsageStatus = "success" | "failed";
+
+export interface UsageEventInput {
+  kind: UsageKind;
+  status: UsageStatus;
+  productId?: string | null;
+  productTitle?: string | null;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  error?: string | null;
+}
+
+export interface UsageDay {
+  date: string;
+  succeeded: number;
+  failed: number;
+}
+
+export interface UsageProduct {
+  productId: string;
+  productTitle: string;
+  count: number;
+}
+
+export interface UsageSummary {
+  days: UsageDay[];
+  topProducts: UsageProduct[];
+  succeeded: number;
+  failed: number;
+  promptTokens: number;
+  completionTokens: number;
+  avgLatencyMs: number;
+}
+
+type UsageEventRecord = {
+  productId: string | null;
+  productTitle: string | null;
+  status: UsageStatus;
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  createdAt: Date;
+};
+
+function monthStart(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function recordUsage(shop: string, event: UsageEventInput) {
+  await prisma.usageEvent.create({
+    data: {
+      shop,
+      kind: event.kind,
+      status: event.status,
+      productId: event.productId ?? null,
+      productTitle: event.productTitle ?? null,
+      provider: event.provider,
+      model: event.model,
+      latencyMs: Math.round(event.latencyMs),
+      promptTokens: event.promptTokens,
+      completionTokens: event.completionTokens,
+      error: event.error ? event.error.slice(0, 500) : null,
+    },
+  });
+}
+
+/** Successful AI calls this month, i.e. what the quota is checked against. */
+export async function countMonthlyUsage(shop: string): Promise<number> {
+  return prisma.usageEvent.count({
+    where: { shop, status: "success", createdAt: { gte: monthStart() } },
+  });
+}
+
+/** Everything the usage page shows for the current month. */
+export async function getUsageSummary(shop: string): Promise<UsageSummary> {
+  const now = new Date();
+  const start = monthStart(now);
+  const records: UsageEventRecord[] = await prisma.usageEvent.findMany({
+    where: { shop, createdAt: { gte: start } },
+    select: {
+      productId: true,
+      productTitle: true,
+      status: true,
+      latencyMs: true,
+      promptTokens: true,
+      completionTokens: true,
+      createdAt: true,
+    },
+  });
+
+  // One bucket per day so far, so quiet days still show up on the chart
+  const days = new Map<string, UsageDay>();
+  for (let day = 1; day <= now.getUTCDate(); day++) {
+    const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), day)).toISOString().slice(0, 10);
+    days.set(date, { date, succeeded: 0, failed: 0 });
+  }
+
+  const products = new Map<string, UsageProduct>();
+  let latencyTotal = 0;
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let succeeded = 0;
+
+  for (const record of records) {
+    const bucket = days.get(record.createdAt.toISOString().slice(0, 10));
+    promptTokens += record.promptTokens;
+    completionTokens += record.completionTokens;
+
+    if (record.status !== "success") {
+      if (bucket) bucket.failed++;
+      continue;
+    }
+
+    succeeded++;
+    latencyTotal += record.latencyMs;
+    if (bucket) bucket.succeeded++;
+    if (record.productId) {
+      const product = products.get(record.productId) ?? {
+        productId: record.productId,
+        productTitle: record.productTitle ?? record.productId,
+        count: 0,
+      };
+      product.count++;
+      products.set(record.productId, product);
+    }
+  }
+
+  return {
+    days: [...days.values()],
+    topProducts: [...products.values()].sort((a, b) => b.count - a.count).slice(0, 10),
+    succeeded,
+    failed: records.length - succeeded,
+    promptTokens,
+    completionTokens,
+    avgLatencyMs: succeeded > 0 ? Math.round(latencyTotal / succeeded) : 0,
+  };
+}
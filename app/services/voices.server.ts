@@ -0,0 +1,161 @@
+import prisma from "../db.server";
+
+/**
+ * Brand voices
+ * - Built-in voices replace the old hard-coded vibeMap and keep their ids
+ *   ("edgy", "minimalist", "roast") so existing history and jobs still resolve.
+ * - Shops add their own profiles, stored per shop in Prisma.
+ */
+
+export interface Voice {
+  id: string;
+  name: string;
+  tone: string;
+  examples: string[];
+  preferredWords: string[];
+  bannedWords: string[];
+  targetLength?: number;
+  builtIn: boolean;
+}
+
+export interface VoiceInput {
+  name: string;
+  tone: string;
+  examples: string[];
+  preferredWords: string[];
+  bannedWords: string[];
+  targetLength?: number;
+}
+
+type VoiceRecord = {
+  id: string;
+  shop: string;
+  name: string;
+  tone: string;
+  examples: string;
+  preferredWords: string;
+  bannedWords: string;
+  targetLength: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export const BUILT_IN_VOICES: Voice[] = [
+  {
+    id: "edgy",
+    name: "Edgy",
+    tone: "Bold. Punchy. Minimal fluff.",
+    examples: [],
+    preferredWords: [],
+    bannedWords: [],
+    builtIn: true,
+  },
+  {
+    id: "minimalist",
+    name: "Minimalist",
+    tone: "Ultra concise. Functional. No adjectives.",
+    examples: [],
+    preferredWords: [],
+    bannedWords: [],
+    builtIn: true,
+  },
+  {
+    id: "roast",
+    name: "Real Talk",
+    tone: "Real Talk. Brutally honest. Persuasive, not rude.",
+    examples: [],
+    preferredWords: [],
+    bannedWords: [],
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_VOICE_ID = "edgy";
+
+// Examples are stored one per line, word lists comma-separated
+const splitLines = (value: string) => value.split("\n").map((s) => s.trim()).filter(Boolean);
+const splitWords = (value: string) => value.split(",").map((s) => s.trim()).filter(Boolean);
+
+function toVoice(record: VoiceRecord): Voice {
+  return {
+    id: record.id,
+    name: record.name,
+    tone: record.tone,
+    examples: splitLines(record.examples),
+    preferredWords: splitWords(record.preferredWords),
+    bannedWords: splitWords(record.bannedWords),
+    targetLength: record.targetLength ?? undefined,
+    builtIn: false,
+  };
+}
+
+function toData(input: VoiceInput) {
+  return {
+    name: input.name.trim(),
+    tone: input.tone.trim(),
+    examples: input.examples.join("\n"),
+    preferredWords: input.preferredWords.join(", "),
+    bannedWords: input.bannedWords.join(", "),
+    targetLength: input.targetLength ?? null,
+  };
+}
+
+export function parseVoiceForm(formData: FormData): VoiceInput {
+  const targetLength = parseInt(String(formData.get("targetLength") || ""), 10);
+  return {
+    name: String(formData.get("name") || ""),
+    tone: String(formData.get("tone") || ""),
+    examples: splitLines(String(formData.get("examples") || "")),
+    preferredWords: splitWords(String(formData.get("preferredWords") || "")),
+    bannedWords: splitWords(String(formData.get("bannedWords") || "")),
+    targetLength: Number.isFinite(targetLength) && targetLength > 0 ? targetLength : undefined,
+  };
+}
+
+export async function listVoiceProfiles(shop: string): Promise<Voice[]> {
+  const records: VoiceRecord[] = await prisma.voiceProfile.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+  return records.map(toVoice);
+}
+
+/** Built-in voices followed by the shop's own profiles. */
+export async function listVoices(shop: string): Promise<Voice[]> {
+  return [...BUILT_IN_VOICES, ...(await listVoiceProfiles(shop))];
+}
+
+/** Looks up a built-in or shop voice by id, falling back to the default voice. */
+export async function resolveVoice(shop: string, voiceId?: string | null): Promise<Voice> {
+  const builtIn = BUILT_IN_VOICES.find((v) => v.id === voiceId);
+  if (builtIn) return builtIn;
+
+  if (voiceId) {
+    const record: VoiceRecord | null = await prisma.voiceProfile.findFirst({
+      where: { id: voiceId, shop },
+    });
+    if (record) return toVoice(record);
+  }
+
+  return BUILT_IN_VOICES.find((v) => v.id === DEFAULT_VOICE_ID)!;
+}
+
+export async function createVoiceProfile(shop: string, input: VoiceInput): Promise<Voice> {
+  const record: VoiceRecord = await prisma.voiceProfile.create({
+    data: { shop, ...toData(input) },
+  });
+  return toVoice(record);
+}
+
+export async function updateVoiceProfile(shop: string, id: string, input: VoiceInput): Promise<boolean> {
+  const { count } = await prisma.voiceProfile.updateMany({
+    where: { id, shop },
+    data: toData(input),
+  });
+  return count > 0;
+}
+
+export async function deleteVoiceProfile(shop: string, id: string): Promise<boolean> {
+  const { count } = await prisma.voiceProfile.deleteMany({ where: { id, shop } });
+  return count > 0;
+}
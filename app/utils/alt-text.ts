@@ -0,0 +1,22 @@
+// app/utils/alt-text.ts
+// Shared by the alt-text schema (server) and the review page (counters).
+
+// Screen readers handle longer text, but ~125 characters is the common guidance
+export const ALT_TEXT_LIMIT = 125;
+
+/** "blue-rain-jacket_front.jpg?v=123" -> "blue rain jacket front" */
+export function filenameHint(url: string): string {
+  const segment = url.split("?")[0].split("/").pop() ?? "";
+  let base = segment;
+  try {
+    base = decodeURIComponent(segment);
+  } catch {
+    // A malformed escape like "%E0%A4%A" only costs us the decoding
+  }
+  return base
+    .replace(/\.[a-z0-9]+$/i, "")
+    .replace(/[_-]+/g, " ")
+    .replace(/\b[0-9a-f]{8,}\b/gi, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,180 @@
+// app/utils/content-score.ts
+// SEO and readability analysis of a description. Client-safe: the Dashboard
+// scores drafts live as they are edited, History scores stored entries and the
+// server uses the same score to decide on automatic regeneration.
+
+import { htmlToText } from "./html";
+
+export interface KeywordUsage {
+  keyword: string;
+  count: number;
+  // Percent of all words taken up by this keyword
+  density: number;
+}
+
+export interface ContentAnalysis {
+  // 0-100, the sum of the parts below
+  score: number;
+  words: number;
+  sentences: number;
+  avgSentenceLength: number;
+  // Flesch-Kincaid grade level
+  readingGrade: number;
+  keywords: KeywordUsage[];
+  // Share of keywords used at least once, 0-1; 1 when there are no keywords
+  keywordCoverage: number;
+  structure: { paragraphs: number; headings: number; lists: number; listItems: number };
+  // Three-word phrases used more than once
+  duplicates: { phrase: string; count: number }[];
+  // What cost points, in plain words
+  issues: string[];
+}
+
+export const DEFAULT_MIN_SCORE = 60;
+
+// Density above this reads as keyword stuffing
+const MAX_KEYWORD_DENSITY = 3;
+// Comfortable for most shoppers; harder text loses points up to MAX_GRADE
+const TARGET_GRADE = 9;
+const MAX_GRADE = 14;
+const LENGTH_RANGE: Record<string, [number, number]> = { paragraph: [60, 250], bullets: [30, 200] };
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have in is it its of on or our so that the this to was with you your".split(" ")
+);
+
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+const words = (text: string) => (text.toLowerCase().match(WORD_PATTERN) ?? []) as string[];
+
+function syllables(word: string): number {
+  const groups = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function countPhrase(tokens: string[], phrase: string[]): number {
+  let count = 0;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, j) => tokens[i + j] === word)) count++;
+  }
+  return count;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Scores a sanitized description against comma-separated SEO keywords.
+ * `format` is "paragraph" or "bullets" and sets the expected length and structure.
+ */
+export function analyzeDescription(html: string, keywords = "", format = "paragraph"): ContentAnalysis {
+  const text = htmlToText(html ?? "");
+  const tokens = words(text);
+  const wordCount = tokens.length;
+  // List items rarely end in a full stop, so line breaks end sentences too
+  const sentenceList = text.split(/[.!?]+(?:\s|$)|\n/).filter((s) => words(s).length > 0);
+  const sentenceCount = Math.max(1, sentenceList.length);
+  const issues: string[] = [];
+
+  const readingGrade =
+    wordCount === 0
+      ? 0
+      : Math.max(
+          0,
+          round(0.39 * (wordCount / sentenceCount) + 11.8 * (tokens.reduce((n, w) => n + syllables(w), 0) / wordCount) - 15.59)
+        );
+
+  const keywordList = [...new Set(keywords.split(",").map((k) => k.trim().toLowerCase()).filter(Boolean))];
+  const keywordUsage = keywordList.map((keyword) => {
+    const phrase = words(keyword);
+    const count = phrase.length ? countPhrase(tokens, phrase) : 0;
+    return { keyword, count, density: wordCount ? round((count * phrase.length * 100) / wordCount) : 0 };
+  });
+  const used = keywordUsage.filter((k) => k.count > 0);
+  const keywordCoverage = keywordList.length ? used.length / keywordList.length : 1;
+
+  const structure = {
+    paragraphs: (html.match(/<p[\s>]/gi) ?? []).length,
+    headings: (html.match(/<h[1-6][\s>]/gi) ?? []).length,
+    lists: (html.match(/<(ul|ol)[\s>]/gi) ?? []).length,
+    listItems: (html.match(/<li[\s>]/gi) ?? []).length,
+  };
+
+  const trigrams = new Map<string, number>();
+  for (let i = 0; i + 3 <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + 3);
+    if (gram.every((word) => STOPWORDS.has(word))) continue;
+    const key = gram.join(" ");
+    trigrams.set(key, (trigrams.get(key) ?? 0) + 1);
+  }
+  const duplicates = [...trigrams]
+    .filter(([, count]) => count > 1)
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  // Keywords: 30 for coverage, 10 for sensible density
+  let keywordPoints = 30;
+  let densityPoints = 10;
+  if (keywordList.length > 0) {
+    keywordPoints = 30 * keywordCoverage;
+    const missing = keywordUsage.filter((k) => k.count === 0).map((k) => `"${k.keyword}"`);
+    if (missing.length) issues.push(`Missing keywords: ${missing.join(", ")}`);
+    const stuffed = keywordUsage.filter((k) => k.density > MAX_KEYWORD_DENSITY);
+    densityPoints = 10 * ((keywordList.length - stuffed.length) / keywordList.length);
+    for (const k of stuffed) issues.push(`"${k.keyword}" is ${k.density}% of the text, above ${MAX_KEYWORD_DENSITY}%`);
+  }
+
+  // Readability: 20
+  let readabilityPoints = 20;
+  if (readingGrade > TARGET_GRADE) {
+    readabilityPoints = 20 * Math.max(0, (MAX_GRADE - readingGrade) / (MAX_GRADE - TARGET_GRADE));
+    issues.push(`Reads at grade ${readingGrade}; aim for ${TARGET_GRADE} or below with shorter sentences and words`);
+  }
+
+  // Length: 15
+  const [minWords, maxWords] = LENGTH_RANGE[format] ?? LENGTH_RANGE.paragraph;
+  let lengthPoints = 15;
+  if (wordCount < minWords) {
+    lengthPoints = (15 * wordCount) / minWords;
+    issues.push(`${wordCount} words is short; aim for at least ${minWords}`);
+  } else if (wordCount > maxWords) {
+    lengthPoints = 15 * Math.max(0, 1 - (wordCount - maxWords) / maxWords);
+    issues.push(`${wordCount} words is long; aim for at most ${maxWords}`);
+  }
+
+  // Structure: 10
+  let structurePoints = 10;
+  if (format === "bullets") {
+    if (structure.listItems < 3) {
+      structurePoints = structure.lists > 0 ? 5 : 0;
+      issues.push("Bullet format needs a list with at least 3 items");
+    }
+  } else if (structure.paragraphs + structure.headings + structure.lists < 2) {
+    structurePoints = 5;
+    issues.push("A single block of text; break it into paragraphs or add a list");
+  }
+
+  // Duplicate phrasing: 15
+  const duplicatePoints = Math.max(0, 15 - 5 * duplicates.length);
+  if (duplicates.length) {
+    issues.push(`Repeated phrasing: ${duplicates.map((d) => `"${d.phrase}" ×${d.count}`).join(", ")}`);
+  }
+
+  // The other checks give an empty description most of their points
+  if (wordCount === 0) issues.unshift("The description is empty");
+
+  return {
+    score:
+      wordCount === 0
+        ? 0
+        : Math.round(keywordPoints + densityPoints + readabilityPoints + lengthPoints + structurePoints + duplicatePoints),
+    words: wordCount,
+    sentences: sentenceList.length,
+    avgSentenceLength: round(wordCount / sentenceCount),
+    readingGrade,
+    keywords: keywordUsage,
+    keywordCoverage,
+    structure,
+    duplicates,
+    issues,
+  };
+}
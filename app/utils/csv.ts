@@ -0,0 +1,74 @@
+// app/utils/csv.ts
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines,
+// which description HTML often does. Client-safe, so the import page shares
+// its row limit from here.
+
+// Rows per import file; each applied row becomes a draft for review
+export const MAX_IMPORT_ROWS = 250;
+
+const needsQuotes = (value: string) => /[",\r\n]/.test(value) || /^\s|\s$/.test(value);
+
+// Spreadsheets run a cell starting with one of these as a formula; a leading
+// apostrophe makes it text and is hidden by the spreadsheet. Cells that already
+// start with apostrophes get one more, so parsing gives back the exact value.
+const FORMULA_START = /^'*[=+\-@]/;
+const GUARDED_FORMULA = /^'+[=+\-@]/;
+
+function toField(value: string): string {
+  const guarded = FORMULA_START.test(value) ? `'${value}` : value;
+  return needsQuotes(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(toField).join(",")).join("\r\n");
+}
+
+/**
+ * Parses CSV text into rows of fields. Blank lines are dropped, and the
+ * apostrophe `toCsv` puts before formula-like cells is removed again.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Spreadsheet apps like to prepend a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endField = () => {
+    row.push(GUARDED_FORMULA.test(field) ? field.slice(1) : field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
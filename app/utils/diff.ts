@@ -0,0 +1,122 @@
+// app/utils/diff.ts
+// Word-level diff for comparing the live description with a generated one.
+// Client-safe: used by the DescriptionDiff component on the Dashboard and History.
+
+export type DiffPart = {
+  type: "equal" | "insert" | "delete";
+  value: string;
+};
+
+export type DiffSide = "before" | "after";
+
+// Above this many LCS cells the diff falls back to "everything replaced"
+const MAX_CELLS = 2_500_000;
+
+const TOKEN_PATTERN = /<[^>]+>|\s+|[^\s<]+/g;
+
+const isTag = (token: string) => token.startsWith("<");
+const isSpace = (token: string) => /^\s+$/.test(token);
+
+function tokenize(text: string): string[] {
+  return (text.match(TOKEN_PATTERN) ?? []).map((token) => (isSpace(token) ? " " : token));
+}
+
+function push(parts: DiffPart[], type: DiffPart["type"], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type && !isTag(last.value)) last.value += value;
+  else parts.push({ type, value });
+}
+
+// Tags are pushed on their own so renderers can keep them out of highlights
+function pushToken(parts: DiffPart[], type: DiffPart["type"], token: string) {
+  if (isTag(token)) parts.push({ type, value: token });
+  else push(parts, type, token);
+}
+
+/** Word-level diff of two strings (HTML tags count as single tokens). */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the shared prefix and suffix so the LCS table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  a.slice(0, start).forEach((token) => pushToken(parts, "equal", token));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_CELLS) {
+    midA.forEach((token) => pushToken(parts, "delete", token));
+    midB.forEach((token) => pushToken(parts, "insert", token));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushToken(parts, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushToken(parts, "delete", midA[i++]);
+      } else {
+        pushToken(parts, "insert", midB[j++]);
+      }
+    }
+    while (i < n) pushToken(parts, "delete", midA[i++]);
+    while (j < m) pushToken(parts, "insert", midB[j++]);
+  }
+
+  a.slice(endA).forEach((token) => pushToken(parts, "equal", token));
+  return parts;
+}
+
+/** Parts visible on one side: "before" drops insertions, "after" drops deletions. */
+export function sideParts(parts: DiffPart[], side: DiffSide): DiffPart[] {
+  return parts.filter((part) => part.type === "equal" || part.type === (side === "before" ? "delete" : "insert"));
+}
+
+/** Counts of changed words, for a one-line summary above the diff. */
+export function diffStats(parts: DiffPart[]) {
+  const words = (value: string) => (isTag(value) ? 0 : value.split(/\s+/).filter(Boolean).length);
+  let added = 0;
+  let removed = 0;
+  for (const part of parts) {
+    if (part.type === "insert") added += words(part.value);
+    if (part.type === "delete") removed += words(part.value);
+  }
+  return { added, removed };
+}
+
+/**
+ * HTML for one side with changed words wrapped in <ins>/<del>. Tags are emitted
+ * untouched, so the markup must already be sanitized.
+ */
+export function renderDiffHtml(parts: DiffPart[], side: DiffSide): string {
+  const wrapper = side === "before" ? "del" : "ins";
+  return sideParts(parts, side)
+    .map((part) => (part.type === "equal" || isTag(part.value) ? part.value : `<${wrapper}>${part.value}</${wrapper}>`))
+    .join("");
+}
@@ -0,0 +1,41 @@
+// app/utils/html-blocks.ts
+// Splits sanitized description HTML into its top-level blocks (paragraphs,
+// lists, headings) so candidates can be merged block by block on the Dashboard.
+
+const TAG_PATTERN = /<(\/?)([a-z][a-z0-9]*)[^>]*>/gi;
+const VOID_TAGS = new Set(["br"]);
+
+export function splitBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  const pushLoose = (text: string) => {
+    // Text between blocks (e.g. a bare line) becomes a paragraph of its own
+    if (text.replace(/<br\s*\/?>/gi, "").trim()) blocks.push(`<p>${text.trim()}</p>`);
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [tag, closing, name] = match;
+    const index = match.index ?? 0;
+    if (VOID_TAGS.has(name.toLowerCase()) || tag.endsWith("/>")) continue;
+
+    if (!closing) {
+      if (depth === 0) {
+        pushLoose(html.slice(start, index));
+        start = index;
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        blocks.push(html.slice(start, index + tag.length).trim());
+        start = index + tag.length;
+      }
+    }
+  }
+
+  if (depth === 0) pushLoose(html.slice(start));
+  else blocks.push(html.slice(start).trim());
+  return blocks.filter(Boolean);
+}
@@ -0,0 +1,21 @@
+// app/utils/html-policy.ts
+// The one markup policy for product descriptions. The server sanitizer enforces
+// it; the Dashboard editor only offers formatting that survives it.
+
+export const ALLOWED_TAGS = [
+  "p",
+  "br",
+  "ul",
+  "li",
+  "strong",
+  "b",
+  "em",
+  "i",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "ol",
+];
+
+export const ALLOWED_ATTR: string[] = [];
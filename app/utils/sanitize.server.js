@@ -1,28 +1,35 @@
 // app/utils/sanitize.server.js
 import DOMPurify from "isomorphic-dompurify";
 import { JSDOM } from "jsdom";
+import { ALLOWED_ATTR, ALLOWED_TAGS } from "./html-policy";
 
 const window = new JSDOM("").window;
 const purify = DOMPurify(window);
 
+// DOMPurify reports the document wrapper it parses into as removed
+const WRAPPER_TAGS = new Set(["html", "head", "body"]);
+
 export function sanitizeHTML(html) {
-  if (!html) return "";
-  return purify.sanitize(String(html), {
-    ALLOWED_TAGS: [
-      "p",
-      "br",
-      "ul",
-      "li",
-      "strong",
-      "b",
-      "em",
-      "i",
-      "h1",
-      "h2",
-      "h3",
-      "h4",
-      "ol",
-    ],
-    ALLOWED_ATTR: [],
-  });
+  return sanitizeWithReport(html).html;
+}
+
+/**
+ * Sanitizes like `sanitizeHTML` and also lists what was stripped
+ * (e.g. "<script>", "style attribute"), so a save can warn the merchant.
+ * @param {string | null | undefined} html
+ * @returns {{ html: string, removed: string[] }}
+ */
+export function sanitizeWithReport(html) {
+  if (!html) return { html: "", removed: [] };
+  const clean = purify.sanitize(String(html), { ALLOWED_TAGS, ALLOWED_ATTR });
+
+  const removed = new Set();
+  for (const item of purify.removed) {
+    if (item.attribute) removed.add(`${item.attribute.name} attribute`);
+    else if (item.element?.nodeType === 1) {
+      const tag = item.element.nodeName.toLowerCase();
+      if (!WRAPPER_TAGS.has(tag)) removed.add(`<${tag}>`);
+    }
+  }
+  return { html: clean, removed: [...removed] };
 }
@@ -0,0 +1,35 @@
+// app/utils/seo.ts
+// Shared by the server (normalizing AI output) and the Dashboard (counters, preview).
+
+// Roughly what Google shows before truncating a result title / snippet
+export const SEO_TITLE_LIMIT = 60;
+export const SEO_DESCRIPTION_LIMIT = 160;
+
+export interface SeoFields {
+  title: string;
+  description: string;
+}
+
+const stripTags = (value: string) => value.replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim();
+
+/** Cuts text to `limit` characters on a word boundary. */
+export function fitToLimit(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit + 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > limit * 0.6 ? cut.slice(0, lastSpace) : text.slice(0, limit)).replace(/[\s,;:.-]+$/, "");
+}
+
+/**
+ * Coerces whatever the model returned into plain-text SEO fields that fit
+ * their snippet limits. Returns null when there is nothing usable.
+ */
+export function normalizeSeo(raw: unknown): SeoFields | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { title, description } = raw as Record<string, unknown>;
+  const seo = {
+    title: fitToLimit(stripTags(String(title ?? "")), SEO_TITLE_LIMIT),
+    description: fitToLimit(stripTags(String(description ?? "")), SEO_DESCRIPTION_LIMIT),
+  };
+  return seo.title || seo.description ? seo : null;
+}
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "GenerationHistory" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "vibe" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "keywords" TEXT,
+    "includeSocials" BOOLEAN NOT NULL DEFAULT false,
+    "socials" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "GenerationHistory_shop_createdAt_idx" ON "GenerationHistory"("shop", "createdAt");
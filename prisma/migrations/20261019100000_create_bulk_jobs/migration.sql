@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "BulkJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "selector" TEXT NOT NULL,
+    "selectorValue" TEXT,
+    "vibe" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "keywords" TEXT,
+    "includeSocials" BOOLEAN NOT NULL DEFAULT false,
+    "publish" BOOLEAN NOT NULL DEFAULT false,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "BulkJobItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "historyId" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "BulkJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "BulkJob" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "BulkJob_shop_createdAt_idx" ON "BulkJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BulkJob_status_idx" ON "BulkJob"("status");
+
+-- CreateIndex
+CREATE INDEX "BulkJobItem_jobId_status_idx" ON "BulkJobItem"("jobId", "status");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ProductRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "descriptionHtml" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "bulkJobId" TEXT,
+    "restoredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ProductRevision_shop_productId_createdAt_idx" ON "ProductRevision"("shop", "productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductRevision_shop_bulkJobId_idx" ON "ProductRevision"("shop", "bulkJobId");
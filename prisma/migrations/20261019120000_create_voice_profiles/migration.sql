@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "GenerationHistory" ADD COLUMN "voiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "VoiceProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tone" TEXT NOT NULL,
+    "examples" TEXT NOT NULL DEFAULT '',
+    "preferredWords" TEXT NOT NULL DEFAULT '',
+    "bannedWords" TEXT NOT NULL DEFAULT '',
+    "targetLength" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "VoiceProfile_shop_idx" ON "VoiceProfile"("shop");
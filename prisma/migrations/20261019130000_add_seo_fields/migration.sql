@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "GenerationHistory" ADD COLUMN "seoTitle" TEXT;
+ALTER TABLE "GenerationHistory" ADD COLUMN "seoDescription" TEXT;
+
+-- AlterTable
+ALTER TABLE "ProductRevision" ADD COLUMN "seoTitle" TEXT;
+ALTER TABLE "ProductRevision" ADD COLUMN "seoDescription" TEXT;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ShopBilling" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "plan" TEXT NOT NULL DEFAULT 'free',
+    "subscriptionId" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "CreditTopUp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "chargeId" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL,
+    "period" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditTopUp_chargeId_key" ON "CreditTopUp"("chargeId");
+
+-- CreateIndex
+CREATE INDEX "CreditTopUp_shop_period_idx" ON "CreditTopUp"("shop", "period");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "GenerationHistory" ADD COLUMN "candidateGroup" TEXT;
+ALTER TABLE "GenerationHistory" ADD COLUMN "candidateStyle" TEXT;
+ALTER TABLE "GenerationHistory" ADD COLUMN "chosen" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "GenerationHistory_shop_candidateGroup_idx" ON "GenerationHistory"("shop", "candidateGroup");
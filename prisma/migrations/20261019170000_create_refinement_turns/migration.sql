@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "RefinementTurn" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "historyId" TEXT NOT NULL,
+    "instruction" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "socials" TEXT,
+    "seoTitle" TEXT,
+    "seoDescription" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "RefinementTurn_shop_historyId_createdAt_idx" ON "RefinementTurn"("shop", "historyId", "createdAt");
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "AutomationRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "trigger" TEXT NOT NULL DEFAULT 'create',
+    "collectionId" TEXT,
+    "collectionTitle" TEXT,
+    "onlyEmptyDescription" BOOLEAN NOT NULL DEFAULT true,
+    "voiceId" TEXT NOT NULL,
+    "format" TEXT NOT NULL DEFAULT 'paragraph',
+    "keywords" TEXT,
+    "publish" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "AutomationRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ruleId" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "message" TEXT,
+    "historyId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AutomationRun_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AutomationRule" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AutomationRule_shop_idx" ON "AutomationRule"("shop");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_ruleId_createdAt_idx" ON "AutomationRun"("ruleId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_ruleId_productId_createdAt_idx" ON "AutomationRun"("ruleId", "productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_status_idx" ON "AutomationRun"("status");
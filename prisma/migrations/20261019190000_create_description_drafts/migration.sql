@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "DescriptionDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT NOT NULL,
+    "historyId" TEXT,
+    "candidateGroup" TEXT,
+    "chosenIds" TEXT,
+    "descriptionHtml" TEXT NOT NULL,
+    "seoTitle" TEXT,
+    "seoDescription" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "publishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "DraftEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "draftId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "comment" TEXT,
+    "actorName" TEXT NOT NULL,
+    "actorEmail" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DraftEvent_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "DescriptionDraft" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DescriptionDraft_shop_status_createdAt_idx" ON "DescriptionDraft"("shop", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DraftEvent_draftId_createdAt_idx" ON "DraftEvent"("draftId", "createdAt");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "GuardrailPolicy" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "bannedWords" TEXT NOT NULL DEFAULT '',
+    "claimCategories" TEXT NOT NULL DEFAULT '',
+    "customClaims" TEXT NOT NULL DEFAULT '',
+    "paragraphMinWords" INTEGER,
+    "paragraphMaxWords" INTEGER,
+    "bulletsMinWords" INTEGER,
+    "bulletsMaxWords" INTEGER,
+    "onViolation" TEXT NOT NULL DEFAULT 'regenerate',
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "GenerationHistory" ADD COLUMN "guardrailStatus" TEXT;
+ALTER TABLE "GenerationHistory" ADD COLUMN "guardrailViolations" TEXT;
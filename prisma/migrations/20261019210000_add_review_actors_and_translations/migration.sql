@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "BulkJob" ADD COLUMN "createdBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "DescriptionDraft" ADD COLUMN "translations" TEXT;
+
+-- AlterTable
+ALTER TABLE "DraftEvent" ADD COLUMN "actorId" TEXT;
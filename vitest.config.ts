@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// Kept apart from vite.config.ts, whose Remix plugin only makes sense for dev and build
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+    // What shopify.server.ts reads at import; the secret signs the test webhooks
+    env: {
+      SHOPIFY_API_KEY: "test-api-key",
+      SHOPIFY_API_SECRET: "test-api-secret",
+      SHOPIFY_APP_URL: "https://app.example.com",
+      SCOPES: "read_products,write_products",
+    },
+  },
+});